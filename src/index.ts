@@ -1,7 +1,25 @@
 export * from './types.js';
 export * from './utils/array.js';
+export * from './utils/business.js';
+export * from './utils/clock.js';
+export * from './utils/comparator.js';
+export * from './utils/cron.js';
 export * from './utils/date.js';
+export * from './utils/decimal.js';
+export * from './utils/diff.js';
+export * from './utils/duration.js';
+export * from './utils/graph.js';
+export * from './utils/interval.js';
+export * from './utils/local-date.js';
+export * from './utils/money.js';
 export * from './utils/number.js';
 export * from './utils/object.js';
+export * from './utils/pagination.js';
+export * from './utils/random.js';
+export * from './utils/recurrence.js';
+export * from './utils/seq.js';
+export * from './utils/sorted.js';
 export * from './utils/std.js';
+export * from './utils/statistics.js';
 export * from './utils/string.js';
+export * from './utils/tree.js';
@@ -13,6 +13,7 @@ export type Provider<T> = () => T;
 export type Consumer<T> = (value: T) => void;
 export type Transformer<T, U> = (value: T) => U;
 export type Predicate<T> = Transformer<T, boolean>;
+export type Comparator<T> = (a: T, b: T) => number;
 export type MaybePromise<T> = T | Promise<T>;
 export type MaybeArray<T> = T | T[];
 export type NonEmptyArray<T> = [T, ...T[]];
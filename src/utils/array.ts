@@ -1,11 +1,27 @@
-import type { Optional, Predicate, Transformer } from '../types.js';
-import { isDefined } from './std.js';
+import type { Comparator, Optional, Predicate, Transformer } from '../types.js';
+import { by, thenBy } from './comparator.js';
+import { identity, isDefined } from './std.js';
 
 /**
  * Returns a new array containing only the first occurrence of each item in insertion order.
  */
 export const unique = <T>(array: T[]): T[] => Array.from(new Set(array));
 
+/**
+ * Returns a new array keeping the first item for each key produced by `keyFn`.
+ */
+export const uniqueBy = <T, K>(array: T[], keyFn: Transformer<T, K>): T[] => {
+    const seen = new Set<K>();
+    return array.filter((item) => {
+        const key = keyFn(item);
+        if (seen.has(key)) {
+            return false;
+        }
+        seen.add(key);
+        return true;
+    });
+};
+
 /**
  * Checks if an array exists and has no elements.
  */
@@ -19,7 +35,10 @@ export const without = <T>(array: T[], value: T): T[] => array.filter((item) =>
 /**
  * Creates a new array filtering out every value present in the provided list.
  */
-export const withoutAll = <T>(array: T[], values: T[]): T[] => array.filter((item) => !values.includes(item));
+export const withoutAll = <T>(array: T[], values: T[]): T[] => {
+    const excluded = new Set(values);
+    return array.filter((item) => !excluded.has(item));
+};
 
 /**
  * Returns a new array excluding null and undefined values.
@@ -29,12 +48,48 @@ export const compact = <T>(array: Array<Optional<T>>): T[] => array.filter(isDef
 /**
  * Returns the elements shared between both arrays.
  */
-export const intersection = <T>(a: T[], b: T[]): T[] => a.filter((item) => b.includes(item));
+export const intersection = <T>(a: T[], b: T[]): T[] => {
+    const lookup = new Set(b);
+    return a.filter((item) => lookup.has(item));
+};
 
 /**
  * Returns the elements that are present in the first array but not the second.
  */
-export const difference = <T>(a: T[], b: T[]): T[] => a.filter((item) => !b.includes(item));
+export const difference = <T>(a: T[], b: T[]): T[] => {
+    const lookup = new Set(b);
+    return a.filter((item) => !lookup.has(item));
+};
+
+/**
+ * Returns the elements of the first array whose key also appears in the second.
+ */
+export const intersectionBy = <T, K>(a: T[], b: T[], keyFn: Transformer<T, K>): T[] => {
+    const lookup = new Set(b.map(keyFn));
+    return a.filter((item) => lookup.has(keyFn(item)));
+};
+
+/**
+ * Returns the elements of the first array whose key does not appear in the second.
+ */
+export const differenceBy = <T, K>(a: T[], b: T[], keyFn: Transformer<T, K>): T[] => {
+    const lookup = new Set(b.map(keyFn));
+    return a.filter((item) => !lookup.has(keyFn(item)));
+};
+
+/**
+ * Combines both arrays, keeping the first element for each key.
+ */
+export const unionBy = <T, K>(a: T[], b: T[], keyFn: Transformer<T, K>): T[] => uniqueBy([...a, ...b], keyFn);
+
+/**
+ * Returns the elements found in only one of the arrays, those of the first array coming first.
+ * @param keyFn Compares elements by a derived key instead of by identity.
+ */
+export const symmetricDifference = <T>(a: T[], b: T[], keyFn: Transformer<T, unknown> = identity): T[] => [
+    ...differenceBy(a, b, keyFn),
+    ...differenceBy(b, a, keyFn),
+];
 
 /**
  * Splits an array into equally sized chunks.
@@ -53,6 +108,24 @@ export const chunk = <T>(array: T[], size: number): T[][] => {
     return result;
 };
 
+/**
+ * Returns the full windows of `size` consecutive items, starting a new window every `step` items.
+ * Windows overlap when `step` is smaller than `size`, e.g. for moving averages.
+ * @throws Error when size or step is not a positive integer.
+ */
+export const windowed = <T>(array: T[], size: number, step = 1): T[][] => {
+    if (!Number.isInteger(size) || size <= 0 || !Number.isInteger(step) || step <= 0) {
+        throw new Error('window size and step must be positive integers');
+    }
+
+    const result: T[][] = [];
+    for (let i = 0; i + size <= array.length; i += step) {
+        result.push(array.slice(i, i + size));
+    }
+
+    return result;
+};
+
 /**
  * Groups items by a derived key produced by `keyFn`.
  */
@@ -70,6 +143,30 @@ export const groupBy = <T, K extends PropertyKey>(array: T[], keyFn: Transformer
     );
 };
 
+/**
+ * Indexes items by a derived key. Later items win when keys collide.
+ * The result has a null prototype, so keys such as `toString` or `__proto__` are plain entries.
+ */
+export const keyBy = <T, K extends PropertyKey>(array: T[], keyFn: Transformer<T, K>): Record<K, T> => {
+    const result = Object.create(null) as Record<K, T>;
+    for (const item of array) {
+        result[keyFn(item)] = item;
+    }
+    return result;
+};
+
+/**
+ * Counts items per derived key. The result has a null prototype, like the one of `keyBy`.
+ */
+export const countBy = <T, K extends PropertyKey>(array: T[], keyFn: Transformer<T, K>): Record<K, number> => {
+    const result = Object.create(null) as Record<K, number>;
+    for (const item of array) {
+        const key = keyFn(item);
+        result[key] = (result[key] ?? 0) + 1;
+    }
+    return result;
+};
+
 /**
  * Splits an array in two lists according to predicate truthiness.
  * @returns A tuple with items passing the predicate and the remaining items.
@@ -130,3 +227,35 @@ export const flatten = <T>(array: T[][]): T[] => array.reduce<T[]>((acc, current
  * Counts the number of items matching the predicate.
  */
 export const count = <T>(array: T[], predicate: Predicate<T>): number => array.filter(predicate).length;
+
+/**
+ * Returns a sorted copy of the array. The sort is stable, so items the comparators consider equal keep their order.
+ * Without comparators the items themselves are compared.
+ */
+export const sortBy = <T>(array: T[], ...comparators: Array<Comparator<T>>): T[] =>
+    [...array].sort(comparators.length > 0 ? thenBy(...comparators) : by(identity));
+
+const extremeBy = <T, K>(array: T[], keyFn: Transformer<T, Optional<K>>, sign: number): T | undefined => {
+    const comparator = by(keyFn);
+    let best: { item: T } | undefined;
+
+    for (const item of array) {
+        if (isDefined(keyFn(item)) && (!isDefined(best) || comparator(item, best.item) * sign > 0)) {
+            best = { item };
+        }
+    }
+
+    return best?.item;
+};
+
+/**
+ * Returns the item with the smallest key, the first one on ties, or undefined for an empty array.
+ * Items whose key is null or undefined are skipped.
+ */
+export const minBy = <T, K>(array: T[], keyFn: Transformer<T, Optional<K>>): T | undefined => extremeBy(array, keyFn, -1);
+
+/**
+ * Returns the item with the largest key, the first one on ties, or undefined for an empty array.
+ * Items whose key is null or undefined are skipped.
+ */
+export const maxBy = <T, K>(array: T[], keyFn: Transformer<T, Optional<K>>): T | undefined => extremeBy(array, keyFn, 1);
@@ -0,0 +1,228 @@
+import { MILLISECOND_IN_DAY, MILLISECOND_IN_HOUR, fromDateParts, getDateParts, modifyDate } from './date.js';
+import type { DateHelperOptions } from './date.js';
+import { isDefined } from './std.js';
+
+export type BusinessHours = {
+    /**
+     * Opening time as `HH:mm`.
+     */
+    start: string;
+    /**
+     * Closing time as `HH:mm`, must be later than `start`.
+     */
+    end: string;
+};
+
+export type BusinessCalendar = DateHelperOptions & {
+    /**
+     * Weekdays that are not worked (0 = Sunday ... 6 = Saturday), defaults to Saturday and Sunday.
+     */
+    weekendDays?: number[];
+    /**
+     * Non-working days, either as dates (matched by calendar day) or `YYYY-MM-DD` strings.
+     */
+    holidays?: Array<Date | string>;
+    /**
+     * Daily working window used by `addBusinessHours`, defaults to 09:00-17:00.
+     */
+    businessHours?: BusinessHours;
+};
+
+const DEFAULT_WEEKEND_DAYS = [0, 6];
+const DEFAULT_BUSINESS_HOURS: BusinessHours = { start: '09:00', end: '17:00' };
+const HOLIDAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const TIME_PATTERN = /^(\d{2}):(\d{2})$/;
+
+type ResolvedCalendar = {
+    options: BusinessCalendar;
+    weekend: Set<number>;
+    holidays: Set<number>;
+};
+
+/**
+ * Days since the Unix epoch of the calendar day the date falls on in the calendar's zone.
+ */
+const toDayNumber = (date: Date, options: DateHelperOptions): number => {
+    const { year, month, day } = getDateParts(date, options);
+    return Math.floor(Date.UTC(year, month, day) / MILLISECOND_IN_DAY);
+};
+
+const weekdayOf = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+const parseHoliday = (holiday: Date | string, options: DateHelperOptions): number => {
+    if (holiday instanceof Date) {
+        return toDayNumber(holiday, options);
+    }
+
+    const match = HOLIDAY_PATTERN.exec(holiday.trim());
+    if (!isDefined(match)) {
+        throw new Error(`Invalid holiday "${holiday}", expected YYYY-MM-DD`);
+    }
+
+    return Math.floor(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])) / MILLISECOND_IN_DAY);
+};
+
+const resolveCalendar = (calendar: BusinessCalendar = {}): ResolvedCalendar => {
+    const weekendDays = calendar.weekendDays ?? DEFAULT_WEEKEND_DAYS;
+    const invalidDay = weekendDays.find((day) => !Number.isInteger(day) || day < 0 || day > 6);
+    if (isDefined(invalidDay)) {
+        throw new Error(`Invalid weekend day ${invalidDay}, expected an integer from 0 (Sunday) to 6 (Saturday)`);
+    }
+
+    const weekend = new Set(weekendDays);
+
+    if ([0, 1, 2, 3, 4, 5, 6].every((day) => weekend.has(day))) {
+        throw new Error('Business calendar must have at least one working weekday');
+    }
+
+    return {
+        options: calendar,
+        weekend,
+        holidays: new Set((calendar.holidays ?? []).map((holiday) => parseHoliday(holiday, calendar))),
+    };
+};
+
+const isWorkingDay = (dayNumber: number, calendar: ResolvedCalendar): boolean =>
+    !calendar.weekend.has(weekdayOf(dayNumber)) && !calendar.holidays.has(dayNumber);
+
+const assertFinite = (value: number, name: string): void => {
+    if (!Number.isFinite(value)) {
+        throw new Error(`${name} must be a finite number, received ${value}`);
+    }
+};
+
+const parseTime = (value: string): number => {
+    const match = TIME_PATTERN.exec(value);
+    const hour = Number(match?.[1]);
+    const minute = Number(match?.[2]);
+
+    if (!isDefined(match) || hour > 24 || minute > 59 || (hour === 24 && minute > 0)) {
+        throw new Error(`Invalid business hour "${value}", expected HH:mm`);
+    }
+
+    return hour * 60 + minute;
+};
+
+const instantAt = (dayNumber: number, minutes: number, options: DateHelperOptions): Date => {
+    const day = new Date(dayNumber * MILLISECOND_IN_DAY);
+    return fromDateParts(
+        { year: day.getUTCFullYear(), month: day.getUTCMonth(), day: day.getUTCDate(), hour: Math.floor(minutes / 60), minute: minutes % 60 },
+        options,
+    );
+};
+
+const countWorkingDays = (from: number, to: number, calendar: ResolvedCalendar): number => {
+    const days = to - from;
+    const fullWeeks = Math.floor(days / 7);
+    let total = fullWeeks * (7 - calendar.weekend.size);
+
+    for (let day = from + fullWeeks * 7; day < to; day += 1) {
+        if (!calendar.weekend.has(weekdayOf(day))) {
+            total += 1;
+        }
+    }
+
+    for (const holiday of calendar.holidays) {
+        if (holiday >= from && holiday < to && !calendar.weekend.has(weekdayOf(holiday))) {
+            total -= 1;
+        }
+    }
+
+    return total;
+};
+
+/**
+ * Checks whether the date falls on a working weekday that is not a holiday.
+ */
+export const isBusinessDay = (date: Date, calendar?: BusinessCalendar): boolean => {
+    const resolved = resolveCalendar(calendar);
+    return isWorkingDay(toDayNumber(date, resolved.options), resolved);
+};
+
+/**
+ * Moves the date by the given number of business days, keeping its time of day.
+ * Counting starts from the date's own day, so a Saturday plus one business day is the following Monday.
+ * @throws Error when the amount is not an integer.
+ */
+export const addBusinessDays = (date: Date, amount: number, calendar?: BusinessCalendar): Date => {
+    if (!Number.isInteger(amount)) {
+        throw new Error(`Business day amount must be an integer, received ${amount}`);
+    }
+    const resolved = resolveCalendar(calendar);
+    const step = amount < 0 ? -1 : 1;
+    const start = toDayNumber(date, resolved.options);
+    let day = start;
+    let remaining = Math.abs(amount);
+
+    while (remaining > 0) {
+        day += step;
+        if (isWorkingDay(day, resolved)) {
+            remaining -= 1;
+        }
+    }
+
+    return modifyDate(day - start, 'day', date, resolved.options);
+};
+
+/**
+ * Returns the first business day strictly after the date's day, keeping its time of day.
+ */
+export const nextBusinessDay = (date: Date, calendar?: BusinessCalendar): Date => addBusinessDays(date, 1, calendar);
+
+/**
+ * Counts business days from the start day (inclusive) to the end day (exclusive).
+ * @returns A negative count when `end` is before `start`.
+ */
+export const businessDaysBetween = (start: Date, end: Date, calendar?: BusinessCalendar): number => {
+    const resolved = resolveCalendar(calendar);
+    const from = toDayNumber(start, resolved.options);
+    const to = toDayNumber(end, resolved.options);
+
+    return to >= from ? countWorkingDays(from, to, resolved) : -countWorkingDays(to, from, resolved);
+};
+
+/**
+ * Adds working time to a date, only counting time inside business hours on business days.
+ * Dates outside business hours start counting from the next opening (or the previous closing when subtracting).
+ * @throws Error when hours are not finite, or business hours are malformed or do not describe a positive window.
+ */
+export const addBusinessHours = (date: Date, hours: number, calendar?: BusinessCalendar): Date => {
+    assertFinite(hours, 'Business hours');
+    const resolved = resolveCalendar(calendar);
+    const businessHours = resolved.options.businessHours ?? DEFAULT_BUSINESS_HOURS;
+    const open = parseTime(businessHours.start);
+    const close = parseTime(businessHours.end);
+
+    if (open >= close) {
+        throw new Error('Business hours must end after they start');
+    }
+
+    if (hours === 0) {
+        return new Date(date.getTime());
+    }
+
+    const forward = hours > 0;
+    let remaining = Math.abs(hours) * MILLISECOND_IN_HOUR;
+    let cursor = date.getTime();
+    let day = toDayNumber(date, resolved.options);
+
+    while (true) {
+        if (isWorkingDay(day, resolved)) {
+            const opensAt = instantAt(day, open, resolved.options).getTime();
+            const closesAt = instantAt(day, close, resolved.options).getTime();
+            const from = forward ? Math.max(cursor, opensAt) : opensAt;
+            const to = forward ? closesAt : Math.min(cursor, closesAt);
+
+            if (to > from) {
+                const available = to - from;
+                if (remaining <= available) {
+                    return new Date(forward ? from + remaining : to - remaining);
+                }
+                remaining -= available;
+            }
+        }
+
+        day += forward ? 1 : -1;
+        cursor = forward ? -Infinity : Infinity;
+    }
+};
@@ -0,0 +1,186 @@
+import { isDefined, isPromise } from './std.js';
+
+/**
+ * Source of the current time used by `now()` and every helper that defaults a date to it.
+ */
+export type Clock = {
+    /**
+     * Current wall-clock time in milliseconds since the Unix epoch.
+     */
+    now: () => number;
+    /**
+     * Monotonic milliseconds that never go backwards. Only differences between two readings are meaningful.
+     */
+    monotonic: () => number;
+};
+
+/**
+ * Clock that only moves when told to, for deterministic tests.
+ */
+export type TestClock = Clock & {
+    /**
+     * Moves both the wall clock and the monotonic clock forward.
+     * @throws Error when `milliseconds` is negative.
+     */
+    advance: (milliseconds: number) => void;
+    /**
+     * Jumps the wall clock to the given date without touching the monotonic clock.
+     */
+    set: (date: Date | number) => void;
+};
+
+type PerformanceLike = { now: () => number };
+
+const readPerformance = (): PerformanceLike | undefined => (globalThis as { performance?: PerformanceLike }).performance;
+
+/**
+ * Clock backed by `Date.now()` and, when available, `performance.now()`.
+ */
+export const systemClock: Clock = {
+    now: () => Date.now(),
+    monotonic: () => readPerformance()?.now() ?? Date.now(),
+};
+
+let activeClock: Clock = systemClock;
+
+type ClockScope = { clock: Clock; previous: Clock };
+
+/**
+ * Open `withClock` scopes, oldest first. Each scope remembers the clock it replaced so scopes may end in any order.
+ */
+const scopes: ClockScope[] = [];
+
+/**
+ * Creates a clock frozen at the given date.
+ */
+export const createFixedClock = (date: Date | number): Clock => {
+    const time = date instanceof Date ? date.getTime() : date;
+    return { now: () => time, monotonic: () => 0 };
+};
+
+/**
+ * Creates a manually advanced clock, starting at the given date or at the epoch.
+ */
+export const createTestClock = (start: Date | number = 0): TestClock => {
+    let time = start instanceof Date ? start.getTime() : start;
+    let elapsed = 0;
+
+    return {
+        now: () => time,
+        monotonic: () => elapsed,
+        advance: (milliseconds) => {
+            if (milliseconds < 0) {
+                throw new Error('Test clock cannot move backwards');
+            }
+            time += milliseconds;
+            elapsed += milliseconds;
+        },
+        set: (date) => {
+            time = date instanceof Date ? date.getTime() : date;
+        },
+    };
+};
+
+/**
+ * Returns the clock currently read by `now()`.
+ */
+export const getClock = (): Clock => activeClock;
+
+/**
+ * Installs a clock globally until `resetClock` is called.
+ * @returns A function restoring the previously installed clock.
+ */
+export const setClock = (clock: Clock): (() => void) => {
+    const previous = activeClock;
+    activeClock = clock;
+    return () => {
+        activeClock = previous;
+    };
+};
+
+/**
+ * Restores the system clock.
+ */
+export const resetClock = (): void => {
+    activeClock = systemClock;
+    scopes.length = 0;
+};
+
+const enterScope = (clock: Clock): (() => void) => {
+    const scope: ClockScope = { clock, previous: activeClock };
+    scopes.push(scope);
+    activeClock = clock;
+
+    return () => {
+        const index = scopes.indexOf(scope);
+        if (index === -1) {
+            return;
+        }
+        scopes.splice(index, 1);
+
+        const next = scopes[index];
+        if (isDefined(next)) {
+            // A later scope is still open: hand it the clock to restore once it ends.
+            next.previous = scope.previous;
+        } else if (activeClock === clock) {
+            activeClock = scope.previous;
+        }
+    };
+};
+
+type WithClock = {
+    <T>(clock: Clock, fn: () => Promise<T>): Promise<T>;
+    <T>(clock: Clock, fn: () => T): T;
+};
+
+/**
+ * Runs the callback with the clock installed, restoring the previous one afterwards.
+ * When the callback returns a promise the clock stays installed until it settles, so concurrent work sees it too.
+ * Overlapping scopes may settle in any order; the clock is only restored while this scope's clock is still installed.
+ */
+export const withClock = (<T>(clock: Clock, fn: () => T | Promise<T>): T | Promise<T> => {
+    const restore = enterScope(clock);
+    let result: T | Promise<T>;
+
+    try {
+        result = fn();
+    } catch (error) {
+        restore();
+        throw error;
+    }
+
+    if (isPromise(result)) {
+        return result.finally(restore);
+    }
+
+    restore();
+    return result;
+}) as WithClock;
+
+/**
+ * Starts measuring elapsed time on the monotonic clock.
+ * @returns A function that reports the milliseconds elapsed since the stopwatch started.
+ */
+export const startStopwatch = (clock?: Clock): (() => number) => {
+    const source = clock ?? activeClock;
+    const start = source.monotonic();
+    return () => source.monotonic() - start;
+};
+
+/**
+ * Runs the callback and reports how long it took on the monotonic clock.
+ */
+export const measure = <T>(fn: () => T, clock?: Clock): { value: T; elapsed: number } => {
+    const elapsed = startStopwatch(clock);
+    const value = fn();
+    return { value, elapsed: elapsed() };
+};
+
+/**
+ * Awaits the callback and reports how long it took on the monotonic clock.
+ */
+export const measureAsync = async <T>(fn: () => Promise<T>, clock?: Clock): Promise<{ value: T; elapsed: number }> => {
+    const elapsed = startStopwatch(clock);
+    const value = await fn();
+    return { value, elapsed: elapsed() };
+};
@@ -0,0 +1,81 @@
+import type { Comparator, Optional, Transformer } from '../types.js';
+import { isDefined } from './std.js';
+
+export type SortDirection = 'asc' | 'desc';
+
+export type ByOptions = {
+    /**
+     * Defaults to `asc`.
+     */
+    direction?: SortDirection;
+    /**
+     * Where null and undefined keys go, whatever the direction. Defaults to `last`.
+     */
+    nulls?: 'first' | 'last';
+    /**
+     * Collator used for string keys, e.g. `new Intl.Collator('de')`. Strings compare by code unit otherwise.
+     */
+    collator?: Intl.Collator;
+};
+
+const compareValues = (a: unknown, b: unknown, collator?: Intl.Collator): number => {
+    if (typeof a === 'string' && typeof b === 'string' && isDefined(collator)) {
+        return collator.compare(a, b);
+    }
+
+    const left = a instanceof Date ? a.getTime() : a;
+    const right = b instanceof Date ? b.getTime() : b;
+    if (Number.isNaN(left) || Number.isNaN(right)) {
+        return Number(Number.isNaN(left)) - Number(Number.isNaN(right));
+    }
+    return (left as number) < (right as number) ? -1 : (left as number) > (right as number) ? 1 : 0;
+};
+
+/**
+ * Builds a comparator ordering items by a derived key. Numbers, bigints, strings, booleans and dates are supported.
+ */
+export const by = <T, K>(keyFn: Transformer<T, Optional<K>>, options?: ByOptions): Comparator<T> => {
+    const direction = options?.direction === 'desc' ? -1 : 1;
+    const nulls = options?.nulls === 'first' ? -1 : 1;
+
+    return (a, b) => {
+        const left = keyFn(a);
+        const right = keyFn(b);
+
+        if (!isDefined(left) || !isDefined(right)) {
+            return isDefined(left) === isDefined(right) ? 0 : isDefined(left) ? -nulls : nulls;
+        }
+        return compareValues(left, right, options?.collator) * direction;
+    };
+};
+
+/**
+ * Combines comparators, each one breaking the ties left by the previous ones.
+ */
+export const thenBy = <T>(...comparators: Array<Comparator<T>>): Comparator<T> => {
+    return (a, b) => {
+        for (const comparator of comparators) {
+            const result = comparator(a, b);
+            if (result !== 0) {
+                return result;
+            }
+        }
+        return 0;
+    };
+};
+
+/**
+ * Inverts the order of a comparator.
+ */
+export const reverse =
+    <T>(comparator: Comparator<T>): Comparator<T> =>
+    (a, b) =>
+        comparator(b, a);
+
+/**
+ * Compares strings the way people expect, with digit runs ordered numerically (`file2` before `file10`).
+ */
+export const naturalOrder = (locales?: Intl.LocalesArgument, options?: Intl.CollatorOptions): Comparator<string> => {
+    const collator = new Intl.Collator(locales, { numeric: true, ...options });
+    return (a, b) => collator.compare(a, b);
+};
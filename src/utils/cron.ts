@@ -0,0 +1,520 @@
+import type { Result } from '../types.js';
+import { fromDateParts, getDateParts, now } from './date.js';
+import type { DateHelperOptions } from './date.js';
+import { err, isDefined, ok } from './std.js';
+import { capitalize } from './string.js';
+
+export type CronField = {
+    /**
+     * Sorted values matched by the field. Days of the week use 0 = Sunday ... 6 = Saturday and months 1 = January.
+     */
+    values: number[];
+    /**
+     * The field as written in the expression.
+     */
+    source: string;
+    /**
+     * True when the field is an unstepped `*` or `?`, i.e. it does not restrict anything.
+     */
+    wildcard: boolean;
+    /**
+     * True when the field starts with `*` or `?`, stepped or not. As in Vixie cron, only such a day field
+     * leaves the other day field alone in deciding matches, so `*\/2` restricts days without switching to the OR rule.
+     */
+    starred: boolean;
+};
+
+/**
+ * A parsed 5-field (`minute hour day month weekday`) or 6-field (`second minute hour day month weekday`) cron expression.
+ */
+export type CronExpression = {
+    source: string;
+    hasSeconds: boolean;
+    second: CronField;
+    minute: CronField;
+    hour: CronField;
+    dayOfMonth: CronField;
+    month: CronField;
+    dayOfWeek: CronField;
+};
+
+type FieldName = 'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek';
+
+type FieldSpec = {
+    label: string;
+    min: number;
+    max: number;
+    names?: string[];
+};
+
+type CronItem = {
+    start: number;
+    end: number;
+    step: number;
+    wildcard: boolean;
+};
+
+type WallClock = {
+    year: number;
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const FIELD_SPECS: Record<FieldName, FieldSpec> = {
+    second: { label: 'second', min: 0, max: 59 },
+    minute: { label: 'minute', min: 0, max: 59 },
+    hour: { label: 'hour', min: 0, max: 23 },
+    dayOfMonth: { label: 'day of month', min: 1, max: 31 },
+    month: { label: 'month', min: 1, max: 12, names: MONTH_NAMES.map((name) => name.slice(0, 3).toUpperCase()) },
+    dayOfWeek: { label: 'day of week', min: 0, max: 7, names: WEEKDAY_NAMES.map((name) => name.slice(0, 3).toUpperCase()) },
+};
+
+const FIELD_ORDER: FieldName[] = ['second', 'minute', 'hour', 'dayOfMonth', 'month', 'dayOfWeek'];
+
+const MACROS: Record<string, string> = {
+    '@yearly': '0 0 1 1 *',
+    '@annually': '0 0 1 1 *',
+    '@monthly': '0 0 1 * *',
+    '@weekly': '0 0 * * 0',
+    '@daily': '0 0 * * *',
+    '@midnight': '0 0 * * *',
+    '@hourly': '0 * * * *',
+};
+
+/**
+ * Upper bound of years searched before concluding that an expression never fires (e.g. February 30th).
+ */
+const MAX_SEARCH_YEARS = 28;
+
+const ITEM_PATTERN = /^(\*|\?|[A-Z0-9]+)(?:-([A-Z0-9]+))?(?:\/(\d+))?$/i;
+
+const parseValue = (value: string, spec: FieldSpec): number | string => {
+    const nameIndex = spec.names?.indexOf(value.toUpperCase()) ?? -1;
+    if (nameIndex !== -1) {
+        return nameIndex + spec.min;
+    }
+
+    if (!/^\d+$/.test(value)) {
+        return `${spec.label} field value "${value}" is not a number`;
+    }
+
+    const parsed = Number(value);
+    if (parsed < spec.min || parsed > spec.max) {
+        return `${spec.label} field value "${value}" is out of range ${spec.min}-${spec.max}`;
+    }
+    return parsed;
+};
+
+const parseItem = (item: string, name: FieldName): CronItem | string => {
+    const spec = FIELD_SPECS[name];
+    const match = ITEM_PATTERN.exec(item);
+
+    if (!isDefined(match)) {
+        return `${spec.label} field item "${item}" is malformed`;
+    }
+
+    const [, first = '', last, rawStep] = match;
+    const step = isDefined(rawStep) ? Number(rawStep) : 1;
+    if (step < 1) {
+        return `${spec.label} field step in "${item}" must be at least 1`;
+    }
+
+    if (first === '*' || first === '?') {
+        if (first === '?' && name !== 'dayOfMonth' && name !== 'dayOfWeek') {
+            return `"?" is only allowed in the day of month and day of week fields`;
+        }
+        if (isDefined(last)) {
+            return `${spec.label} field item "${item}" is malformed`;
+        }
+        return { start: spec.min, end: name === 'dayOfWeek' ? 6 : spec.max, step, wildcard: true };
+    }
+
+    const start = parseValue(first, spec);
+    if (typeof start === 'string') {
+        return start;
+    }
+
+    const end = isDefined(last) ? parseValue(last, spec) : isDefined(rawStep) ? spec.max : start;
+    if (typeof end === 'string') {
+        return end;
+    }
+    if (end < start) {
+        return `${spec.label} field range "${item}" ends before it starts`;
+    }
+
+    return { start, end, step, wildcard: false };
+};
+
+const expandItem = ({ start, end, step }: CronItem, name: FieldName): number[] => {
+    const values: number[] = [];
+    for (let value = start; value <= end; value += step) {
+        values.push(name === 'dayOfWeek' && value === 7 ? 0 : value);
+    }
+    return values;
+};
+
+const parseField = (source: string, name: FieldName): CronField | string => {
+    const values = new Set<number>();
+    let wildcard = true;
+
+    for (const item of source.split(',')) {
+        const parsed = parseItem(item, name);
+        if (typeof parsed === 'string') {
+            return parsed;
+        }
+        expandItem(parsed, name).forEach((value) => values.add(value));
+        wildcard &&= parsed.wildcard && parsed.step === 1;
+    }
+
+    return { values: [...values].sort((a, b) => a - b), source, wildcard, starred: /^[*?]/.test(source) };
+};
+
+/**
+ * Parses a cron expression with 5 fields, or 6 fields when seconds are included.
+ * Supports `*`, `?`, ranges (`1-5`), steps (`*\/15`, `10-40/10`), lists (`1,15`), month and weekday names
+ * (`JAN`, `MON-FRI`) and the `@yearly`, `@monthly`, `@weekly`, `@daily` and `@hourly` macros.
+ */
+export const parseCron = (expression: string): Result<CronExpression> => {
+    const source = expression.trim();
+    const expanded = MACROS[source.toLowerCase()] ?? source;
+    const parts = expanded.split(/\s+/);
+
+    if (parts.length !== 5 && parts.length !== 6) {
+        return err(new Error(`Invalid cron expression "${expression}": expected 5 or 6 fields but got ${source ? parts.length : 0}`));
+    }
+
+    const hasSeconds = parts.length === 6;
+    const sources = hasSeconds ? parts : ['0', ...parts];
+    const fields: Partial<Record<FieldName, CronField>> = {};
+
+    for (const [index, name] of FIELD_ORDER.entries()) {
+        const field = parseField(sources[index] ?? '', name);
+        if (typeof field === 'string') {
+            return err(new Error(`Invalid cron expression "${expression}": ${field}`));
+        }
+        fields[name] = field;
+    }
+
+    return ok({
+        source,
+        hasSeconds,
+        second: fields.second!,
+        minute: fields.minute!,
+        hour: fields.hour!,
+        dayOfMonth: fields.dayOfMonth!,
+        month: fields.month!,
+        dayOfWeek: fields.dayOfWeek!,
+    });
+};
+
+const resolveExpression = (expression: string | CronExpression): CronExpression => {
+    if (typeof expression !== 'string') {
+        return expression;
+    }
+
+    const parsed = parseCron(expression);
+    if (!parsed.ok) {
+        throw parsed.error;
+    }
+    return parsed.value;
+};
+
+/**
+ * Matches the day fields with the Vixie cron rule: when neither field starts with `*` either one may match,
+ * even if a field lists every possible value such as `1-31`. Otherwise both must match, so `*\/2` and `MON`
+ * only fire on Mondays falling on an odd day of the month.
+ */
+const matchesDay = (cron: CronExpression, clock: WallClock): boolean => {
+    const weekday = new Date(Date.UTC(clock.year, clock.month - 1, clock.day)).getUTCDay();
+    const dayOfMonthMatches = cron.dayOfMonth.values.includes(clock.day);
+    const dayOfWeekMatches = cron.dayOfWeek.values.includes(weekday);
+
+    if (cron.dayOfMonth.starred || cron.dayOfWeek.starred) {
+        return dayOfMonthMatches && dayOfWeekMatches;
+    }
+    return dayOfMonthMatches || dayOfWeekMatches;
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month, 0)).getUTCDate();
+
+const first = (field: CronField): number => field.values[0]!;
+const last = (field: CronField): number => field.values[field.values.length - 1]!;
+
+/**
+ * Moves the wall clock by whole days, months or years while keeping it a valid calendar date.
+ */
+const normalizeClock = (clock: WallClock): WallClock => {
+    const date = new Date(Date.UTC(clock.year, clock.month - 1, clock.day, clock.hour, clock.minute, clock.second));
+    return {
+        year: date.getUTCFullYear(),
+        month: date.getUTCMonth() + 1,
+        day: date.getUTCDate(),
+        hour: date.getUTCHours(),
+        minute: date.getUTCMinutes(),
+        second: date.getUTCSeconds(),
+    };
+};
+
+const findForward = (cron: CronExpression, start: WallClock): WallClock | undefined => {
+    let clock = start;
+    const limit = start.year + MAX_SEARCH_YEARS;
+    const startOfDay = { hour: first(cron.hour), minute: first(cron.minute), second: first(cron.second) };
+
+    while (clock.year <= limit) {
+        if (!cron.month.values.includes(clock.month)) {
+            const nextMonth = cron.month.values.find((month) => month > clock.month);
+            clock = isDefined(nextMonth)
+                ? { ...clock, month: nextMonth, day: 1, ...startOfDay }
+                : { ...clock, year: clock.year + 1, month: first(cron.month), day: 1, ...startOfDay };
+            continue;
+        }
+        if (!matchesDay(cron, clock)) {
+            clock = normalizeClock({ ...clock, day: clock.day + 1, ...startOfDay });
+            continue;
+        }
+        if (!cron.hour.values.includes(clock.hour)) {
+            const nextHour = cron.hour.values.find((hour) => hour > clock.hour);
+            clock = isDefined(nextHour)
+                ? { ...clock, hour: nextHour, minute: first(cron.minute), second: first(cron.second) }
+                : normalizeClock({ ...clock, day: clock.day + 1, ...startOfDay });
+            continue;
+        }
+        if (!cron.minute.values.includes(clock.minute)) {
+            const nextMinute = cron.minute.values.find((minute) => minute > clock.minute);
+            clock = isDefined(nextMinute)
+                ? { ...clock, minute: nextMinute, second: first(cron.second) }
+                : normalizeClock({ ...clock, hour: clock.hour + 1, minute: first(cron.minute), second: first(cron.second) });
+            continue;
+        }
+        if (!cron.second.values.includes(clock.second)) {
+            const nextSecond = cron.second.values.find((second) => second > clock.second);
+            clock = isDefined(nextSecond)
+                ? { ...clock, second: nextSecond }
+                : normalizeClock({ ...clock, minute: clock.minute + 1, second: first(cron.second) });
+            continue;
+        }
+        return clock;
+    }
+
+    return undefined;
+};
+
+const findBackward = (cron: CronExpression, start: WallClock): WallClock | undefined => {
+    let clock = start;
+    const limit = start.year - MAX_SEARCH_YEARS;
+    const endOfDay = { hour: last(cron.hour), minute: last(cron.minute), second: last(cron.second) };
+
+    while (clock.year >= limit) {
+        if (!cron.month.values.includes(clock.month)) {
+            const previousMonth = cron.month.values.findLast((month) => month < clock.month);
+            const year = isDefined(previousMonth) ? clock.year : clock.year - 1;
+            const month = previousMonth ?? last(cron.month);
+            clock = { ...clock, year, month, day: daysInMonth(year, month), ...endOfDay };
+            continue;
+        }
+        if (!matchesDay(cron, clock)) {
+            clock = normalizeClock({ ...clock, day: clock.day - 1, ...endOfDay });
+            continue;
+        }
+        if (!cron.hour.values.includes(clock.hour)) {
+            const previousHour = cron.hour.values.findLast((hour) => hour < clock.hour);
+            clock = isDefined(previousHour)
+                ? { ...clock, hour: previousHour, minute: last(cron.minute), second: last(cron.second) }
+                : normalizeClock({ ...clock, day: clock.day - 1, ...endOfDay });
+            continue;
+        }
+        if (!cron.minute.values.includes(clock.minute)) {
+            const previousMinute = cron.minute.values.findLast((minute) => minute < clock.minute);
+            clock = isDefined(previousMinute)
+                ? { ...clock, minute: previousMinute, second: last(cron.second) }
+                : normalizeClock({ ...clock, hour: clock.hour - 1, minute: last(cron.minute), second: last(cron.second) });
+            continue;
+        }
+        if (!cron.second.values.includes(clock.second)) {
+            const previousSecond = cron.second.values.findLast((second) => second < clock.second);
+            clock = isDefined(previousSecond)
+                ? { ...clock, second: previousSecond }
+                : normalizeClock({ ...clock, minute: clock.minute - 1, second: last(cron.second) });
+            continue;
+        }
+        return clock;
+    }
+
+    return undefined;
+};
+
+const toClock = (date: Date, options?: DateHelperOptions): WallClock => {
+    const parts = getDateParts(date, options);
+    return { year: parts.year, month: parts.month + 1, day: parts.day, hour: parts.hour, minute: parts.minute, second: parts.second };
+};
+
+const fromClock = (clock: WallClock, options?: DateHelperOptions): Date =>
+    fromDateParts(
+        { year: clock.year, month: clock.month - 1, day: clock.day, hour: clock.hour, minute: clock.minute, second: clock.second },
+        options,
+    );
+
+const findRun = (cron: CronExpression, from: Date, direction: 1 | -1, options?: DateHelperOptions): Date | undefined => {
+    const find = direction > 0 ? findForward : findBackward;
+    const base = toClock(from, options);
+    const startsOnSecond = direction < 0 && getDateParts(from, options).millisecond === 0;
+    let clock: WallClock | undefined = direction > 0 || startsOnSecond ? normalizeClock({ ...base, second: base.second + direction }) : base;
+
+    while (true) {
+        clock = find(cron, clock);
+        if (!isDefined(clock)) {
+            return undefined;
+        }
+
+        // Wall times repeated or skipped by DST can resolve on the wrong side of `from`; keep searching past them.
+        const run = fromClock(clock, options);
+        if (direction > 0 ? run > from : run < from) {
+            return run;
+        }
+        clock = normalizeClock({ ...clock, second: clock.second + direction });
+    }
+};
+
+/**
+ * Returns the first time strictly after `from` matched by the expression, or undefined when it never fires.
+ * @param from Defaults to `now()`.
+ * @param options Fields are matched in local time, UTC or the requested time zone.
+ * @throws Error when a string expression is invalid.
+ */
+export const nextRun = (expression: string | CronExpression, from: Date = now(), options?: DateHelperOptions): Date | undefined =>
+    findRun(resolveExpression(expression), from, 1, options);
+
+/**
+ * Returns the last time strictly before `from` matched by the expression, or undefined when none is found.
+ * @param from Defaults to `now()`.
+ * @param options Fields are matched in local time, UTC or the requested time zone.
+ * @throws Error when a string expression is invalid.
+ */
+export const previousRun = (expression: string | CronExpression, from: Date = now(), options?: DateHelperOptions): Date | undefined =>
+    findRun(resolveExpression(expression), from, -1, options);
+
+/**
+ * Returns up to `count` upcoming runs after `from`.
+ * @param from Defaults to `now()`.
+ * @throws Error when a string expression is invalid.
+ */
+export const nextRuns = (expression: string | CronExpression, count: number, from: Date = now(), options?: DateHelperOptions): Date[] => {
+    const cron = resolveExpression(expression);
+    const runs: Date[] = [];
+    let cursor: Date | undefined = from;
+
+    while (runs.length < count) {
+        cursor = findRun(cron, cursor, 1, options);
+        if (!isDefined(cursor)) {
+            break;
+        }
+        runs.push(cursor);
+    }
+
+    return runs;
+};
+
+const joinWords = (words: string[]): string => {
+    if (words.length <= 1) {
+        return words.join('');
+    }
+    return `${words.slice(0, -1).join(', ')} and ${words[words.length - 1]}`;
+};
+
+const pad = (value: number): string => String(value).padStart(2, '0');
+
+const items = (field: CronField, name: FieldName): CronItem[] =>
+    field.source.split(',').flatMap((item) => {
+        const parsed = parseItem(item, name);
+        return typeof parsed === 'string' ? [] : [parsed];
+    });
+
+const isWildcardStep = (field: CronField, name: FieldName): boolean => items(field, name).every((item) => item.wildcard);
+
+const describeField = (field: CronField, name: FieldName, unit: string, label: (value: number) => string): string => {
+    const parsedItems = items(field, name);
+    const [single] = parsedItems;
+
+    if (parsedItems.length === 1 && isDefined(single)) {
+        if (single.wildcard) {
+            return single.step === 1 ? `every ${unit}` : `every ${single.step} ${unit}s`;
+        }
+        if (single.start === single.end) {
+            return `at ${unit} ${label(single.start)}`;
+        }
+        if (single.step === 1) {
+            return `every ${unit} from ${label(single.start)} through ${label(single.end)}`;
+        }
+        return `every ${single.step} ${unit}s from ${label(single.start)} through ${label(single.end)}`;
+    }
+
+    return `at ${unit}s ${joinWords(field.values.map(label))}`;
+};
+
+const describeNamedField = (field: CronField, name: FieldName, prefix: string, label: (value: number) => string): string => {
+    const parsedItems = items(field, name);
+    const [single] = parsedItems;
+
+    if (parsedItems.length === 1 && isDefined(single) && single.step === 1 && single.start !== single.end) {
+        return `${prefix} ${label(single.start)} through ${label(single.end)}`;
+    }
+    return `${prefix} ${joinWords(field.values.map(label))}`;
+};
+
+/**
+ * Renders a human-readable English description, e.g. `0 9 * * MON-FRI` becomes "At 09:00, on Monday through Friday".
+ * @throws Error when a string expression is invalid.
+ */
+export const describeCron = (expression: string | CronExpression): string => {
+    const cron = resolveExpression(expression);
+    const clauses: string[] = [];
+    const singleTime = [cron.second, cron.minute, cron.hour].every((field) => field.values.length === 1 && !field.source.includes('/'));
+
+    if (singleTime) {
+        const seconds = cron.hasSeconds ? `:${pad(first(cron.second))}` : '';
+        clauses.push(`at ${pad(first(cron.hour))}:${pad(first(cron.minute))}${seconds}`);
+    } else {
+        const timeFields: Array<[FieldName, string, CronField]> = [
+            ['minute', 'minute', cron.minute],
+            ['hour', 'hour', cron.hour],
+        ];
+        if (cron.hasSeconds) {
+            timeFields.unshift(['second', 'second', cron.second]);
+        }
+
+        timeFields.forEach(([name, unit, field], index) => {
+            const smaller = timeFields[index - 1];
+            if (field.wildcard && isDefined(smaller) && isWildcardStep(smaller[2], smaller[0])) {
+                return;
+            }
+            clauses.push(describeField(field, name, unit, String));
+        });
+    }
+
+    const restrictsDayOfMonth = !cron.dayOfMonth.wildcard;
+    const restrictsDayOfWeek = !cron.dayOfWeek.wildcard;
+    const dayClauses: string[] = [];
+
+    if (restrictsDayOfMonth) {
+        const dayOfMonth = describeNamedField(cron.dayOfMonth, 'dayOfMonth', cron.dayOfMonth.values.length === 1 ? 'on day' : 'on days', String);
+        dayClauses.push(`${dayOfMonth} of the month`);
+    }
+    if (restrictsDayOfWeek) {
+        dayClauses.push(describeNamedField(cron.dayOfWeek, 'dayOfWeek', 'on', (value) => WEEKDAY_NAMES[value % 7]!));
+    }
+    if (dayClauses.length > 0) {
+        clauses.push(dayClauses.join(cron.dayOfMonth.starred || cron.dayOfWeek.starred ? ' and ' : ' or '));
+    }
+
+    if (!cron.month.wildcard) {
+        clauses.push(describeNamedField(cron.month, 'month', 'in', (value) => MONTH_NAMES[value - 1]!));
+    }
+
+    return capitalize(clauses.join(', '));
+};
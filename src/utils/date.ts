@@ -1,13 +1,23 @@
+import type { Result, SetOptional } from '../types.js';
+import type { Duration } from './duration.js';
+import { getClock } from './clock.js';
+import { err, fromTry, isDefined, ok } from './std.js';
+
 /**
  * Units supported by the date helpers for shifting, diffing and rounding.
  */
-export type DateUnit = 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year';
+export type DateUnit = 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'quarter' | 'year';
 
 export type DateHelperOptions = {
     /**
      * When true the operations use UTC setters/getters rather than local time.
      */
     utc?: boolean;
+    /**
+     * IANA time zone identifier (e.g. `Europe/Lisbon`) in which calendar calculations are performed.
+     * Takes precedence over `utc` when provided.
+     */
+    timeZone?: string;
     /**
      * Sets which weekday is considered the start of the week (0 = Sunday, 1 = Monday, ... 6 = Saturday).
      * Applies to week-based calculations in startOf/endOf/isSame.
@@ -15,11 +25,32 @@ export type DateHelperOptions = {
     weekStartsOn?: number;
 };
 
-const MILLISECOND_IN_SECOND = 1000;
-const MILLISECOND_IN_MINUTE = MILLISECOND_IN_SECOND * 60;
-const MILLISECOND_IN_HOUR = MILLISECOND_IN_MINUTE * 60;
-const MILLISECOND_IN_DAY = MILLISECOND_IN_HOUR * 24;
-const MILLISECOND_IN_WEEK = MILLISECOND_IN_DAY * 7;
+/**
+ * Calendar fields of an instant as observed in local time, UTC or a specific time zone.
+ */
+export type DateParts = {
+    year: number;
+    /**
+     * Zero-based month, matching `Date#getMonth`.
+     */
+    month: number;
+    day: number;
+    hour: number;
+    minute: number;
+    second: number;
+    millisecond: number;
+};
+
+/**
+ * Fixed unit lengths in milliseconds. Days and weeks ignore DST, use `modifyDate` for calendar arithmetic.
+ */
+export const MILLISECOND_IN_SECOND = 1000;
+export const MILLISECOND_IN_MINUTE = MILLISECOND_IN_SECOND * 60;
+export const MILLISECOND_IN_HOUR = MILLISECOND_IN_MINUTE * 60;
+export const MILLISECOND_IN_DAY = MILLISECOND_IN_HOUR * 24;
+export const MILLISECOND_IN_WEEK = MILLISECOND_IN_DAY * 7;
+
+const UNITS_DESCENDING: DateUnit[] = ['year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second', 'millisecond'];
 
 const cloneDate = (date: Date): Date => new Date(date.getTime());
 
@@ -28,22 +59,204 @@ const assertUnsupportedUnit = (_unit: never): never => {
     throw new Error('Unsupported DateUnit');
 };
 
+const utcTimestamp = (year: number, month: number, day: number, hour = 0, minute = 0, second = 0, millisecond = 0): number => {
+    const date = new Date(0);
+    date.setUTCFullYear(year, month, day);
+    date.setUTCHours(hour, minute, second, millisecond);
+    return date.getTime();
+};
+
+const zoneFormatters = new Map<string, Intl.DateTimeFormat>();
+
+const getZoneFormatter = (timeZone: string): Intl.DateTimeFormat => {
+    const cached = zoneFormatters.get(timeZone);
+    if (isDefined(cached)) {
+        return cached;
+    }
+
+    const formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        era: 'short',
+        year: 'numeric',
+        month: 'numeric',
+        day: 'numeric',
+        hour: 'numeric',
+        minute: 'numeric',
+        second: 'numeric',
+    });
+    zoneFormatters.set(timeZone, formatter);
+    return formatter;
+};
+
+/**
+ * Returns a timestamp whose UTC fields match the wall clock of `timestamp` in the given zone.
+ */
+const zonedWallTime = (timestamp: number, timeZone: string): number => {
+    if (!Number.isFinite(timestamp)) {
+        return NaN;
+    }
+
+    const fields: Partial<Record<Intl.DateTimeFormatPartTypes, number>> = {};
+    let beforeCommonEra = false;
+
+    for (const part of getZoneFormatter(timeZone).formatToParts(timestamp)) {
+        if (part.type === 'era') {
+            beforeCommonEra = part.value.startsWith('B');
+        } else if (part.type !== 'literal') {
+            fields[part.type] = Number(part.value);
+        }
+    }
+
+    const year = fields.year ?? 1970;
+    const millisecond = ((timestamp % MILLISECOND_IN_SECOND) + MILLISECOND_IN_SECOND) % MILLISECOND_IN_SECOND;
+
+    return utcTimestamp(
+        beforeCommonEra ? 1 - year : year,
+        (fields.month ?? 1) - 1,
+        fields.day ?? 1,
+        fields.hour ?? 0,
+        fields.minute ?? 0,
+        fields.second ?? 0,
+        millisecond,
+    );
+};
+
+const zoneOffset = (timestamp: number, timeZone: string): number => zonedWallTime(timestamp, timeZone) - timestamp;
+
+/**
+ * Resolves a wall clock time in the given zone to an instant.
+ * Ambiguous times pick the earlier instant and skipped times move forward, mirroring how `Date` treats local time.
+ */
+const zonedTimestamp = (wallTime: number, timeZone: string): number => {
+    if (!Number.isFinite(wallTime)) {
+        return NaN;
+    }
+
+    const offsetBefore = zoneOffset(wallTime - MILLISECOND_IN_DAY, timeZone);
+    const offsetAfter = zoneOffset(wallTime + MILLISECOND_IN_DAY, timeZone);
+
+    if (offsetBefore === offsetAfter) {
+        return wallTime - offsetBefore;
+    }
+
+    const candidates = [wallTime - offsetBefore, wallTime - offsetAfter].filter((candidate) => zonedWallTime(candidate, timeZone) === wallTime);
+    if (candidates.length > 0) {
+        return Math.min(...candidates);
+    }
+
+    return wallTime - offsetBefore;
+};
+
+const toWallTime = (date: Date, options?: DateHelperOptions): number => {
+    const timeZone = options?.timeZone;
+    if (isDefined(timeZone)) {
+        return zonedWallTime(date.getTime(), timeZone);
+    }
+
+    if (options?.utc === true) {
+        return date.getTime();
+    }
+
+    return utcTimestamp(
+        date.getFullYear(),
+        date.getMonth(),
+        date.getDate(),
+        date.getHours(),
+        date.getMinutes(),
+        date.getSeconds(),
+        date.getMilliseconds(),
+    );
+};
+
+const fromWallTime = (wallTime: number, options?: DateHelperOptions): Date => {
+    const timeZone = options?.timeZone;
+    if (isDefined(timeZone)) {
+        return new Date(zonedTimestamp(wallTime, timeZone));
+    }
+
+    if (options?.utc === true) {
+        return new Date(wallTime);
+    }
+
+    const wall = new Date(wallTime);
+    const result = new Date(0);
+    result.setFullYear(wall.getUTCFullYear(), wall.getUTCMonth(), wall.getUTCDate());
+    result.setHours(wall.getUTCHours(), wall.getUTCMinutes(), wall.getUTCSeconds(), wall.getUTCMilliseconds());
+    return result;
+};
+
+const wallClockOptions = (options?: DateHelperOptions): DateHelperOptions => ({ utc: true, weekStartsOn: options?.weekStartsOn ?? 0 });
+
+const isSubDayUnit = (unit: DateUnit): boolean => unit === 'millisecond' || unit === 'second' || unit === 'minute' || unit === 'hour';
+
+const unitMilliseconds = (unit: 'millisecond' | 'second' | 'minute' | 'hour' | 'day' | 'week'): number => {
+    switch (unit) {
+        case 'millisecond':
+            return 1;
+        case 'second':
+            return MILLISECOND_IN_SECOND;
+        case 'minute':
+            return MILLISECOND_IN_MINUTE;
+        case 'hour':
+            return MILLISECOND_IN_HOUR;
+        case 'day':
+            return MILLISECOND_IN_DAY;
+        case 'week':
+            return MILLISECOND_IN_WEEK;
+        default:
+            return assertUnsupportedUnit(unit);
+    }
+};
+
+const ISO_DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
 const ISO_TIMEZONE_PATTERN = /(?:Z|[+-]\d{2}:?\d{2})$/i;
 const ISO_HAS_TIME = /T/;
 
-const parseDateString = (value: string, asUtc: boolean): Date => {
+const parseDateString = (value: string, options?: DateHelperOptions): Date => {
     const trimmed = value.trim();
     const hasTime = ISO_HAS_TIME.test(trimmed);
     const hasTimezone = ISO_TIMEZONE_PATTERN.test(trimmed);
+    const timeZone = options?.timeZone;
+
+    if (isDefined(timeZone) && !hasTimezone && (hasTime || ISO_DATE_ONLY.test(trimmed))) {
+        const wall = new Date(hasTime ? `${trimmed}Z` : trimmed);
+        return new Date(zonedTimestamp(wall.getTime(), timeZone));
+    }
 
-    if (asUtc && hasTime && !hasTimezone) {
+    if (options?.utc === true && hasTime && !hasTimezone) {
         return new Date(`${trimmed}Z`);
     }
 
     return new Date(trimmed);
 };
 
+const shiftZonedDate = (date: Date, value: number, unit: DateUnit, timeZone: string): Date => {
+    switch (unit) {
+        case 'millisecond':
+        case 'second':
+        case 'minute':
+        case 'hour':
+            return new Date(date.getTime() + value * unitMilliseconds(unit));
+        case 'day':
+        case 'week':
+        case 'month':
+        case 'quarter':
+        case 'year': {
+            const wall = shiftDate(new Date(zonedWallTime(date.getTime(), timeZone)), value, unit, { utc: true });
+            return new Date(zonedTimestamp(wall.getTime(), timeZone));
+        }
+        default:
+            return assertUnsupportedUnit(unit);
+    }
+};
+
 const shiftDate = (date: Date, value: number, unit: DateUnit, options?: DateHelperOptions): Date => {
+    const timeZone = options?.timeZone;
+    if (isDefined(timeZone)) {
+        return shiftZonedDate(date, value, unit, timeZone);
+    }
+
     const updated = cloneDate(date);
     const useUtc = options?.utc === true;
 
@@ -97,6 +310,13 @@ const shiftDate = (date: Date, value: number, unit: DateUnit, options?: DateHelp
                 updated.setMonth(updated.getMonth() + value);
             }
             break;
+        case 'quarter':
+            if (useUtc) {
+                updated.setUTCMonth(updated.getUTCMonth() + value * 3);
+            } else {
+                updated.setMonth(updated.getMonth() + value * 3);
+            }
+            break;
         case 'year':
             if (useUtc) {
                 updated.setUTCFullYear(updated.getUTCFullYear() + value);
@@ -111,28 +331,375 @@ const shiftDate = (date: Date, value: number, unit: DateUnit, options?: DateHelp
     return updated;
 };
 
-const diffInMonths = (start: Date, end: Date): number => {
+const estimateCalendarDiff = (start: Date, end: Date, unit: 'day' | 'week' | 'month', options?: DateHelperOptions): number => {
+    const startWall = new Date(toWallTime(start, options));
+    const endWall = new Date(toWallTime(end, options));
+
+    if (unit === 'month') {
+        return (endWall.getUTCFullYear() - startWall.getUTCFullYear()) * 12 + (endWall.getUTCMonth() - startWall.getUTCMonth());
+    }
+
+    return Math.trunc((endWall.getTime() - startWall.getTime()) / unitMilliseconds(unit));
+};
+
+/**
+ * Counts whole calendar units between both dates and adds the elapsed fraction of the next one,
+ * so days spanning a DST transition still count as a single day.
+ */
+const diffInCalendarUnits = (start: Date, end: Date, unit: 'day' | 'week' | 'month', options?: DateHelperOptions): number => {
     if (start.getTime() === end.getTime()) {
         return 0;
     }
 
     const sign = end > start ? 1 : -1;
-    let months = (end.getFullYear() - start.getFullYear()) * 12 + (end.getMonth() - start.getMonth());
-    const anchor = shiftDate(start, months, 'month');
+    let units = estimateCalendarDiff(start, end, unit, options);
+    const anchor = shiftDate(start, units, unit, options);
 
     if ((sign > 0 && end < anchor) || (sign < 0 && end > anchor)) {
-        months -= sign;
+        units -= sign;
     }
 
-    const adjustedAnchor = shiftDate(start, months, 'month');
-    const next = shiftDate(adjustedAnchor, sign, 'month');
+    const adjustedAnchor = shiftDate(start, units, unit, options);
+    const next = shiftDate(adjustedAnchor, sign, unit, options);
     const interval = next.getTime() - adjustedAnchor.getTime();
 
     if (interval === 0) {
-        return months;
+        return units;
+    }
+
+    return units + ((end.getTime() - adjustedAnchor.getTime()) / interval) * sign;
+};
+
+const startOfZoned = (date: Date, unit: DateUnit, timeZone: string, options?: DateHelperOptions): Date => {
+    const wall = new Date(zonedWallTime(date.getTime(), timeZone));
+    const wallStart = startOf(wall, unit, wallClockOptions(options));
+
+    if (isSubDayUnit(unit)) {
+        return new Date(date.getTime() - (wall.getTime() - wallStart.getTime()));
+    }
+
+    return new Date(zonedTimestamp(wallStart.getTime(), timeZone));
+};
+
+const MONTH_NAMES = ['January', 'February', 'March', 'April', 'May', 'June', 'July', 'August', 'September', 'October', 'November', 'December'];
+const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+const PATTERN_TOKENS = [
+    'yyyy',
+    'yy',
+    'MMMM',
+    'MMM',
+    'MM',
+    'M',
+    'dd',
+    'd',
+    'EEEE',
+    'EEE',
+    'HH',
+    'H',
+    'hh',
+    'h',
+    'a',
+    'mm',
+    'm',
+    'ss',
+    's',
+    'SSS',
+    'xxx',
+    'xx',
+    'XXX',
+    'XX',
+] as const;
+
+type PatternToken = (typeof PATTERN_TOKENS)[number];
+type PatternPart = { token: PatternToken } | { literal: string };
+
+const PATTERN_PART_REGEX = /'(?:[^']|'')*'|([A-Za-z])\1*/g;
+
+const isPatternToken = (value: string): value is PatternToken => (PATTERN_TOKENS as readonly string[]).includes(value);
+
+const tokenizePattern = (pattern: string): PatternPart[] => {
+    const parts: PatternPart[] = [];
+    let lastIndex = 0;
+
+    for (const match of pattern.matchAll(PATTERN_PART_REGEX)) {
+        if (match.index > lastIndex) {
+            parts.push({ literal: pattern.slice(lastIndex, match.index) });
+        }
+
+        const [text] = match;
+        if (text.startsWith("'")) {
+            parts.push({ literal: text.length === 2 ? "'" : text.slice(1, -1).replace(/''/g, "'") });
+        } else if (isPatternToken(text)) {
+            parts.push({ token: text });
+        } else {
+            throw new Error(`Unsupported date format token "${text}"`);
+        }
+        lastIndex = match.index + text.length;
+    }
+
+    if (lastIndex < pattern.length) {
+        parts.push({ literal: pattern.slice(lastIndex) });
+    }
+
+    return parts;
+};
+
+const padNumber = (value: number, length: number): string => `${value < 0 ? '-' : ''}${String(Math.abs(value)).padStart(length, '0')}`;
+
+const formatOffset = (offsetMinutes: number, separator: string, zulu: boolean): string => {
+    if (zulu && offsetMinutes === 0) {
+        return 'Z';
+    }
+
+    const sign = offsetMinutes < 0 ? '-' : '+';
+    const absolute = Math.abs(offsetMinutes);
+    return `${sign}${padNumber(Math.floor(absolute / 60), 2)}${separator}${padNumber(absolute % 60, 2)}`;
+};
+
+const assertUnsupportedToken = (_token: never): never => {
+    void _token;
+    throw new Error('Unsupported date format token');
+};
+
+const formatPatternToken = (token: PatternToken, wall: Date, offsetMinutes: number): string => {
+    const hour12 = wall.getUTCHours() % 12 === 0 ? 12 : wall.getUTCHours() % 12;
+
+    switch (token) {
+        case 'yyyy':
+            return padNumber(wall.getUTCFullYear(), 4);
+        case 'yy':
+            return padNumber(((wall.getUTCFullYear() % 100) + 100) % 100, 2);
+        case 'MMMM':
+            return MONTH_NAMES[wall.getUTCMonth()]!;
+        case 'MMM':
+            return MONTH_NAMES[wall.getUTCMonth()]!.slice(0, 3);
+        case 'MM':
+            return padNumber(wall.getUTCMonth() + 1, 2);
+        case 'M':
+            return String(wall.getUTCMonth() + 1);
+        case 'dd':
+            return padNumber(wall.getUTCDate(), 2);
+        case 'd':
+            return String(wall.getUTCDate());
+        case 'EEEE':
+            return WEEKDAY_NAMES[wall.getUTCDay()]!;
+        case 'EEE':
+            return WEEKDAY_NAMES[wall.getUTCDay()]!.slice(0, 3);
+        case 'HH':
+            return padNumber(wall.getUTCHours(), 2);
+        case 'H':
+            return String(wall.getUTCHours());
+        case 'hh':
+            return padNumber(hour12, 2);
+        case 'h':
+            return String(hour12);
+        case 'a':
+            return wall.getUTCHours() < 12 ? 'AM' : 'PM';
+        case 'mm':
+            return padNumber(wall.getUTCMinutes(), 2);
+        case 'm':
+            return String(wall.getUTCMinutes());
+        case 'ss':
+            return padNumber(wall.getUTCSeconds(), 2);
+        case 's':
+            return String(wall.getUTCSeconds());
+        case 'SSS':
+            return padNumber(wall.getUTCMilliseconds(), 3);
+        case 'xxx':
+            return formatOffset(offsetMinutes, ':', false);
+        case 'xx':
+            return formatOffset(offsetMinutes, '', false);
+        case 'XXX':
+            return formatOffset(offsetMinutes, ':', true);
+        case 'XX':
+            return formatOffset(offsetMinutes, '', true);
+        default:
+            return assertUnsupportedToken(token);
+    }
+};
+
+const namesPattern = (names: string[]): string => `(${names.join('|')})`;
+
+const TOKEN_PATTERNS: Record<PatternToken, string> = {
+    yyyy: '(\\d{4})',
+    yy: '(\\d{2})',
+    MMMM: namesPattern(MONTH_NAMES),
+    MMM: namesPattern(MONTH_NAMES.map((name) => name.slice(0, 3))),
+    MM: '(\\d{2})',
+    M: '(\\d{1,2})',
+    dd: '(\\d{2})',
+    d: '(\\d{1,2})',
+    EEEE: namesPattern(WEEKDAY_NAMES),
+    EEE: namesPattern(WEEKDAY_NAMES.map((name) => name.slice(0, 3))),
+    HH: '(\\d{2})',
+    H: '(\\d{1,2})',
+    hh: '(\\d{2})',
+    h: '(\\d{1,2})',
+    a: '(AM|PM)',
+    mm: '(\\d{2})',
+    m: '(\\d{1,2})',
+    ss: '(\\d{2})',
+    s: '(\\d{1,2})',
+    SSS: '(\\d{3})',
+    xxx: '([+-]\\d{2}:\\d{2})',
+    xx: '([+-]\\d{4})',
+    XXX: '(Z|[+-]\\d{2}:\\d{2})',
+    XX: '(Z|[+-]\\d{4})',
+};
+
+type ParsedFields = {
+    year?: number;
+    month?: number;
+    day?: number;
+    weekday?: number;
+    hour?: number;
+    hour12?: number;
+    meridiem?: 'AM' | 'PM';
+    minute?: number;
+    second?: number;
+    millisecond?: number;
+    offset?: number;
+};
+
+const escapeRegExp = (value: string): string => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+const findName = (names: string[], value: string, length?: number): number =>
+    names.findIndex((name) => (isDefined(length) ? name.slice(0, length) : name).toLowerCase() === value.toLowerCase());
+
+const parseOffset = (value: string): number => {
+    if (value.toUpperCase() === 'Z') {
+        return 0;
     }
 
-    return months + ((end.getTime() - adjustedAnchor.getTime()) / interval) * sign;
+    const digits = value.slice(1).replace(':', '');
+    const minutes = Number(digits.slice(0, 2)) * 60 + Number(digits.slice(2));
+    return value.startsWith('-') ? -minutes : minutes;
+};
+
+const readPatternToken = (token: PatternToken, value: string): [keyof ParsedFields, ParsedFields[keyof ParsedFields]] => {
+    switch (token) {
+        case 'yyyy':
+            return ['year', Number(value)];
+        case 'yy':
+            return ['year', 2000 + Number(value)];
+        case 'MMMM':
+            return ['month', findName(MONTH_NAMES, value) + 1];
+        case 'MMM':
+            return ['month', findName(MONTH_NAMES, value, 3) + 1];
+        case 'MM':
+        case 'M':
+            return ['month', Number(value)];
+        case 'dd':
+        case 'd':
+            return ['day', Number(value)];
+        case 'EEEE':
+            return ['weekday', findName(WEEKDAY_NAMES, value)];
+        case 'EEE':
+            return ['weekday', findName(WEEKDAY_NAMES, value, 3)];
+        case 'HH':
+        case 'H':
+            return ['hour', Number(value)];
+        case 'hh':
+        case 'h':
+            return ['hour12', Number(value)];
+        case 'a':
+            return ['meridiem', value.toUpperCase() === 'AM' ? 'AM' : 'PM'];
+        case 'mm':
+        case 'm':
+            return ['minute', Number(value)];
+        case 'ss':
+        case 's':
+            return ['second', Number(value)];
+        case 'SSS':
+            return ['millisecond', Number(value)];
+        case 'xxx':
+        case 'xx':
+        case 'XXX':
+        case 'XX':
+            return ['offset', parseOffset(value)];
+        default:
+            return assertUnsupportedToken(token);
+    }
+};
+
+const FIELD_RANGES: Partial<Record<keyof ParsedFields, [number, number]>> = {
+    month: [1, 12],
+    day: [1, 31],
+    hour: [0, 23],
+    hour12: [1, 12],
+    minute: [0, 59],
+    second: [0, 59],
+    millisecond: [0, 999],
+    offset: [-18 * 60, 18 * 60],
+};
+
+const parseWithPattern = (value: string, pattern: string, options?: DateHelperOptions): Result<Date> => {
+    const invalid = (reason: string): Result<never> => err(new Error(`Cannot parse "${value}" with format "${pattern}": ${reason}`));
+
+    const parsedPattern = fromTry(() => tokenizePattern(pattern));
+    if (!parsedPattern.ok) {
+        return err(parsedPattern.error instanceof Error ? parsedPattern.error : new Error(String(parsedPattern.error)));
+    }
+
+    const parts = parsedPattern.value;
+    const tokens = parts.flatMap((part) => ('token' in part ? [part.token] : []));
+    const source = parts.map((part) => ('token' in part ? TOKEN_PATTERNS[part.token] : escapeRegExp(part.literal))).join('');
+    const match = new RegExp(`^${source}$`, 'i').exec(value);
+
+    if (!isDefined(match)) {
+        return invalid('input does not match the format');
+    }
+
+    const fields: ParsedFields = {};
+    for (const [index, token] of tokens.entries()) {
+        const [field, fieldValue] = readPatternToken(token, match[index + 1] ?? '');
+        if (isDefined(fields[field]) && fields[field] !== fieldValue) {
+            return invalid(`conflicting values for ${field}`);
+        }
+        Object.assign(fields, { [field]: fieldValue });
+    }
+
+    for (const [field, [min, max]] of Object.entries(FIELD_RANGES) as Array<[keyof ParsedFields, [number, number]]>) {
+        const fieldValue = fields[field];
+        if (typeof fieldValue === 'number' && (fieldValue < min || fieldValue > max)) {
+            return invalid(`${field} is out of range`);
+        }
+    }
+
+    if (isDefined(fields.hour12) && !isDefined(fields.hour) && !isDefined(fields.meridiem)) {
+        return invalid('12-hour values require an AM/PM marker');
+    }
+
+    const hour = fields.hour ?? (isDefined(fields.hour12) ? (fields.hour12 % 12) + (fields.meridiem === 'PM' ? 12 : 0) : 0);
+    if (isDefined(fields.hour) && isDefined(fields.meridiem) && (fields.hour < 12 ? 'AM' : 'PM') !== fields.meridiem) {
+        return invalid('hour does not match the AM/PM marker');
+    }
+
+    const year = fields.year ?? 1970;
+    const month = (fields.month ?? 1) - 1;
+    const day = fields.day ?? 1;
+    const wallTime = utcTimestamp(year, month, day, hour, fields.minute ?? 0, fields.second ?? 0, fields.millisecond ?? 0);
+    const wall = new Date(wallTime);
+
+    if (wall.getUTCFullYear() !== year || wall.getUTCMonth() !== month || wall.getUTCDate() !== day) {
+        return invalid('day does not exist in that month');
+    }
+
+    if (isDefined(fields.weekday) && wall.getUTCDay() !== fields.weekday) {
+        return invalid('weekday does not match the date');
+    }
+
+    if (isDefined(fields.offset)) {
+        return ok(new Date(wallTime - fields.offset * MILLISECOND_IN_MINUTE));
+    }
+
+    const result = fromWallTime(wallTime, options);
+    if (toWallTime(result, options) !== wallTime) {
+        return invalid('time does not exist in the target time zone');
+    }
+
+    return ok(result);
 };
 
 /**
@@ -143,14 +710,56 @@ export const formatDate = (date: Date, locales?: Intl.LocalesArgument, options?:
 };
 
 /**
- * Returns a new Date representing the current instant.
+ * Formats a date with a locale-independent pattern such as `yyyy-MM-dd HH:mm:ss.SSS xxx`.
+ * Supported tokens: `yyyy yy MMMM MMM MM M dd d EEEE EEE HH H hh h a mm m ss s SSS xxx xx XXX XX`;
+ * text wrapped in single quotes is emitted verbatim (`''` for a literal quote).
+ * @param options Fields and offsets are rendered in local time, UTC or the requested time zone.
+ * @throws Error when the pattern contains an unsupported token.
+ */
+export const formatDatePattern = (date: Date, pattern: string, options?: DateHelperOptions): string => {
+    const wallTime = toWallTime(date, options);
+    const wall = new Date(wallTime);
+    const offsetMinutes = Math.round((wallTime - date.getTime()) / MILLISECOND_IN_MINUTE);
+
+    return tokenizePattern(pattern)
+        .map((part) => ('token' in part ? formatPatternToken(part.token, wall, offsetMinutes) : part.literal))
+        .join('');
+};
+
+/**
+ * Strictly parses a string with the same tokens as `formatDatePattern`.
+ * Values without an offset token are read in local time, UTC or the requested time zone.
+ * @returns An error result when the input does not match, a field is out of range or the date does not exist.
  */
-export const now = (): Date => new Date();
+export const parseDatePattern = (value: string, pattern: string, options?: DateHelperOptions): Result<Date> =>
+    parseWithPattern(value, pattern, options);
+
+/**
+ * Returns a new Date representing the current instant of the installed clock (see `withClock`).
+ */
+export const now = (): Date => new Date(getClock().now());
+
+export type DateParseOptions = DateHelperOptions & {
+    /**
+     * Pattern the value must strictly match, using the tokens of `formatDatePattern`.
+     */
+    format: string;
+};
+
+type ParseDate = {
+    (value: string, options: DateParseOptions): Result<Date>;
+    (value: string | number | Date, options?: DateHelperOptions): Date;
+};
 
 /**
  * Parses a date value, treating timezone-less ISO strings as UTC when requested.
+ * When a `format` is provided the value is parsed strictly and the outcome is returned as a `Result`.
  */
-export const parseDate = (value: string | number | Date, options?: DateHelperOptions): Date => {
+export const parseDate = ((value: string | number | Date, options?: DateHelperOptions & { format?: string }): Date | Result<Date> => {
+    if (isDefined(options?.format)) {
+        return parseWithPattern(String(value), options.format, options);
+    }
+
     if (value instanceof Date) {
         return cloneDate(value);
     }
@@ -159,19 +768,74 @@ export const parseDate = (value: string | number | Date, options?: DateHelperOpt
         return new Date(value);
     }
 
-    return parseDateString(value, options?.utc === true);
+    return parseDateString(value, options);
+}) as ParseDate;
+
+/**
+ * Reads the calendar fields of a date in local time, UTC or the requested time zone.
+ * @returns The fields along with the weekday (0 = Sunday ... 6 = Saturday).
+ */
+export const getDateParts = (date: Date, options?: DateHelperOptions): DateParts & { weekday: number } => {
+    const wall = new Date(toWallTime(date, options));
+    return {
+        year: wall.getUTCFullYear(),
+        month: wall.getUTCMonth(),
+        day: wall.getUTCDate(),
+        hour: wall.getUTCHours(),
+        minute: wall.getUTCMinutes(),
+        second: wall.getUTCSeconds(),
+        millisecond: wall.getUTCMilliseconds(),
+        weekday: wall.getUTCDay(),
+    };
 };
 
 /**
- * Creates a new date shifted by the provided value and unit.
+ * Builds a date from calendar fields interpreted in local time, UTC or the requested time zone.
+ * Wall times skipped by a DST transition move forward and repeated ones resolve to the earlier instant.
+ */
+export const fromDateParts = (parts: SetOptional<DateParts, 'hour' | 'minute' | 'second' | 'millisecond'>, options?: DateHelperOptions): Date => {
+    const wallTime = utcTimestamp(parts.year, parts.month, parts.day, parts.hour, parts.minute, parts.second, parts.millisecond);
+    return fromWallTime(wallTime, options);
+};
+
+type ModifyDate = {
+    (value: number, unit: DateUnit, date?: Date, options?: DateHelperOptions): Date;
+    (duration: Duration, date?: Date, options?: DateHelperOptions): Date;
+};
+
+/**
+ * Creates a new date shifted by the provided value and unit, or by every unit of a `Duration`
+ * applied from the largest to the smallest.
  * @param date Base date, defaults to `now()`.
+ * @param options Calendar units (day and above) are shifted on the wall clock of the chosen zone.
  */
-export const modifyDate = (value: number, unit: DateUnit, date: Date = now()): Date => shiftDate(date, value, unit);
+export const modifyDate: ModifyDate = (
+    valueOrDuration: number | Duration,
+    unitOrDate?: DateUnit | Date,
+    dateOrOptions?: Date | DateHelperOptions,
+    maybeOptions?: DateHelperOptions,
+): Date => {
+    if (typeof valueOrDuration === 'number') {
+        const date = dateOrOptions instanceof Date ? dateOrOptions : now();
+        return shiftDate(date, valueOrDuration, unitOrDate as DateUnit, maybeOptions);
+    }
+
+    const date = unitOrDate instanceof Date ? unitOrDate : now();
+    const options = dateOrOptions instanceof Date ? undefined : dateOrOptions;
+
+    return UNITS_DESCENDING.reduce((result, unit) => {
+        const value = valueOrDuration[unit];
+        return isDefined(value) && value !== 0 ? shiftDate(result, value, unit, options) : result;
+    }, cloneDate(date));
+};
 
 /**
  * Calculates the difference between two dates in the desired unit.
+ * Without options, days and weeks are elapsed time (24 and 168 hours), so a range crossing a DST change is not a whole number of days.
+ * @param options When given, days and weeks are measured on the calendar of the chosen zone (local time unless `utc` or `timeZone`
+ * is set). Months and longer units always are.
  */
-export const dateDiff = (start: Date, end: Date, unit: DateUnit): number => {
+export const dateDiff = (start: Date, end: Date, unit: DateUnit, options?: DateHelperOptions): number => {
     const diffMilliseconds = end.getTime() - start.getTime();
 
     switch (unit) {
@@ -184,13 +848,15 @@ export const dateDiff = (start: Date, end: Date, unit: DateUnit): number => {
         case 'hour':
             return diffMilliseconds / MILLISECOND_IN_HOUR;
         case 'day':
-            return diffMilliseconds / MILLISECOND_IN_DAY;
+            return isDefined(options) ? diffInCalendarUnits(start, end, unit, options) : diffMilliseconds / MILLISECOND_IN_DAY;
         case 'week':
-            return diffMilliseconds / MILLISECOND_IN_WEEK;
+            return isDefined(options) ? diffInCalendarUnits(start, end, unit, options) : diffMilliseconds / MILLISECOND_IN_WEEK;
         case 'month':
-            return diffInMonths(start, end);
+            return diffInCalendarUnits(start, end, unit, options);
+        case 'quarter':
+            return diffInCalendarUnits(start, end, 'month', options) / 3;
         case 'year':
-            return diffInMonths(start, end) / 12;
+            return diffInCalendarUnits(start, end, 'month', options) / 12;
         default:
             return assertUnsupportedUnit(unit);
     }
@@ -198,9 +864,14 @@ export const dateDiff = (start: Date, end: Date, unit: DateUnit): number => {
 
 /**
  * Returns a new date pinned to the beginning of the specified unit.
- * @param options When `utc` is true calculations ignore the local timezone offset.
+ * @param options When `utc` is true calculations ignore the local timezone offset; `timeZone` pins them to an IANA zone.
  */
 export const startOf = (date: Date, unit: DateUnit, options?: DateHelperOptions): Date => {
+    const timeZone = options?.timeZone;
+    if (isDefined(timeZone)) {
+        return startOfZoned(date, unit, timeZone, options);
+    }
+
     const result = cloneDate(date);
     const useUtc = options?.utc === true;
 
@@ -251,6 +922,15 @@ export const startOf = (date: Date, unit: DateUnit, options?: DateHelperOptions)
                 result.setHours(0, 0, 0, 0);
             }
             return result;
+        case 'quarter':
+            if (useUtc) {
+                result.setUTCMonth(Math.floor(result.getUTCMonth() / 3) * 3, 1);
+                result.setUTCHours(0, 0, 0, 0);
+            } else {
+                result.setMonth(Math.floor(result.getMonth() / 3) * 3, 1);
+                result.setHours(0, 0, 0, 0);
+            }
+            return result;
         case 'year':
             if (useUtc) {
                 result.setUTCMonth(0, 1);
@@ -267,7 +947,7 @@ export const startOf = (date: Date, unit: DateUnit, options?: DateHelperOptions)
 
 /**
  * Returns a new date representing the end instant of a given unit.
- * @param options When `utc` is true calculations ignore the local timezone offset.
+ * @param options When `utc` is true calculations ignore the local timezone offset; `timeZone` pins them to an IANA zone.
  */
 export const endOf = (date: Date, unit: DateUnit, options?: DateHelperOptions): Date => {
     if (unit === 'millisecond') {
@@ -280,8 +960,164 @@ export const endOf = (date: Date, unit: DateUnit, options?: DateHelperOptions):
 
 /**
  * Compares two dates at the provided unit precision.
- * @param options When `utc` is true calculations ignore the local timezone offset.
+ * @param options When `utc` is true calculations ignore the local timezone offset; `timeZone` pins them to an IANA zone.
  */
 export const isSame = (a: Date, b: Date, unit: DateUnit, options?: DateHelperOptions): boolean => {
     return startOf(a, unit, options).getTime() === startOf(b, unit, options).getTime();
 };
+
+/**
+ * Units `Intl.RelativeTimeFormat` can render, from the smallest to the largest.
+ */
+export type RelativeTimeUnit = Extract<DateUnit, 'second' | 'minute' | 'hour' | 'day' | 'week' | 'month' | 'year'>;
+
+export type RelativeTime = {
+    value: number;
+    unit: RelativeTimeUnit;
+};
+
+export type RelativeTimeOptions = DateHelperOptions & {
+    locale?: Intl.LocalesArgument;
+    /**
+     * `auto` (default) renders phrases such as "yesterday" or "now" instead of "1 day ago".
+     */
+    numeric?: Intl.RelativeTimeFormatNumeric;
+    style?: Intl.RelativeTimeFormatStyle;
+    /**
+     * Exclusive upper bound of the rounded value shown in each unit before moving to the next larger one.
+     * Defaults to 45 seconds, 45 minutes, 22 hours, 6 days, 4 weeks and 11 months.
+     */
+    thresholds?: Partial<Record<Exclude<RelativeTimeUnit, 'year'>, number>>;
+    /**
+     * Rounding applied to the value in the chosen unit, defaults to `round`.
+     */
+    rounding?: 'round' | 'floor' | 'ceil' | 'trunc';
+};
+
+const RELATIVE_THRESHOLD_UNITS: Array<Exclude<RelativeTimeUnit, 'year'>> = ['second', 'minute', 'hour', 'day', 'week', 'month'];
+
+const DEFAULT_RELATIVE_THRESHOLDS: Record<Exclude<RelativeTimeUnit, 'year'>, number> = {
+    second: 45,
+    minute: 45,
+    hour: 22,
+    day: 6,
+    week: 4,
+    month: 11,
+};
+
+/**
+ * Picks the unit that best describes the distance from `base` to `date`.
+ * Positive values are in the future and negative values in the past.
+ * @param base Reference date, defaults to `now()`.
+ */
+export const getRelativeTime = (date: Date, base: Date = now(), options?: RelativeTimeOptions): RelativeTime => {
+    const thresholds = { ...DEFAULT_RELATIVE_THRESHOLDS, ...options?.thresholds };
+    const round = Math[options?.rounding ?? 'round'];
+
+    // Adding zero turns a rounded `-0` into `0` so "now" is not rendered as a past value.
+    // Options are always passed so days count calendar days in local time, e.g. "yesterday" across a DST change.
+    for (const unit of RELATIVE_THRESHOLD_UNITS) {
+        const value = round(dateDiff(base, date, unit, options ?? {})) + 0;
+        if (Math.abs(value) < thresholds[unit]) {
+            return { value, unit };
+        }
+    }
+
+    return { value: round(dateDiff(base, date, 'year', options)) + 0, unit: 'year' };
+};
+
+/**
+ * Renders the distance from `base` to `date` as a phrase such as "3 days ago" or "in 2 hours".
+ * @param base Reference date, defaults to `now()`.
+ */
+export const formatRelative = (date: Date, base: Date = now(), options?: RelativeTimeOptions): string => {
+    const { value, unit } = getRelativeTime(date, base, options);
+    const formatter = new Intl.RelativeTimeFormat(options?.locale, { numeric: options?.numeric ?? 'auto', style: options?.style ?? 'long' });
+    return formatter.format(value, unit);
+};
+
+const ISO_WEEK_DATE_EXTENDED = /^(\d{4})-W(\d{2})(?:-(\d))?$/;
+const ISO_WEEK_DATE_BASIC = /^(\d{4})W(\d{2})(\d)?$/;
+
+const toDayNumber = (year: number, month: number, day: number): number => Math.floor(utcTimestamp(year, month, day) / MILLISECOND_IN_DAY);
+
+const calendarDayNumber = (date: Date, options?: DateHelperOptions): number => Math.floor(toWallTime(date, options) / MILLISECOND_IN_DAY);
+
+/**
+ * ISO weekday (1 = Monday ... 7 = Sunday) of a day counted from the epoch, which fell on a Thursday.
+ */
+const isoWeekdayOf = (dayNumber: number): number => ((((dayNumber + 3) % 7) + 7) % 7) + 1;
+
+const isoWeekOf = (dayNumber: number): { year: number; week: number } => {
+    const thursday = dayNumber - isoWeekdayOf(dayNumber) + 4;
+    const year = new Date(thursday * MILLISECOND_IN_DAY).getUTCFullYear();
+    return { year, week: Math.floor((thursday - toDayNumber(year, 0, 1)) / 7) + 1 };
+};
+
+const isoWeeksInYear = (year: number): number => isoWeekOf(toDayNumber(year, 11, 28)).week;
+
+/**
+ * Returns the quarter (1-4) the date falls in.
+ */
+export const getQuarter = (date: Date, options?: DateHelperOptions): number => Math.floor(getDateParts(date, options).month / 3) + 1;
+
+/**
+ * Returns the day of the year, starting at 1 on January 1st.
+ */
+export const getDayOfYear = (date: Date, options?: DateHelperOptions): number => {
+    const dayNumber = calendarDayNumber(date, options);
+    return dayNumber - toDayNumber(getDateParts(date, options).year, 0, 1) + 1;
+};
+
+/**
+ * Returns the ISO-8601 week number (1-53). Weeks start on Monday and week 1 contains the year's first Thursday.
+ */
+export const getISOWeek = (date: Date, options?: DateHelperOptions): number => isoWeekOf(calendarDayNumber(date, options)).week;
+
+/**
+ * Returns the ISO-8601 week-numbering year, which differs from the calendar year around January 1st.
+ */
+export const getISOWeekYear = (date: Date, options?: DateHelperOptions): number => isoWeekOf(calendarDayNumber(date, options)).year;
+
+/**
+ * Returns the start of the given ISO week day.
+ * @param weekday ISO weekday, 1 = Monday ... 7 = Sunday.
+ * @throws Error when the week does not exist in that ISO year or the weekday is out of range.
+ */
+export const fromISOWeek = (year: number, week: number, weekday = 1, options?: DateHelperOptions): Date => {
+    if (!Number.isInteger(week) || week < 1 || week > isoWeeksInYear(year)) {
+        throw new Error(`ISO year ${year} has no week ${week}`);
+    }
+    if (!Number.isInteger(weekday) || weekday < 1 || weekday > 7) {
+        throw new Error('ISO weekday must be between 1 (Monday) and 7 (Sunday)');
+    }
+
+    const jan4 = toDayNumber(year, 0, 4);
+    const day = new Date((jan4 - isoWeekdayOf(jan4) + 1 + (week - 1) * 7 + (weekday - 1)) * MILLISECOND_IN_DAY);
+    return fromDateParts({ year: day.getUTCFullYear(), month: day.getUTCMonth(), day: day.getUTCDate() }, options);
+};
+
+/**
+ * Formats the date as an ISO week date such as `2026-W42-3`.
+ */
+export const formatISOWeekDate = (date: Date, options?: DateHelperOptions): string => {
+    const dayNumber = calendarDayNumber(date, options);
+    const { year, week } = isoWeekOf(dayNumber);
+    return `${padNumber(year, 4)}-W${padNumber(week, 2)}-${isoWeekdayOf(dayNumber)}`;
+};
+
+/**
+ * Parses an ISO week date in extended (`2026-W42-3`, `2026-W42`) or basic (`2026W423`) form
+ * into the start of that day. The weekday defaults to Monday.
+ */
+export const parseISOWeekDate = (value: string, options?: DateHelperOptions): Result<Date> => {
+    const trimmed = value.trim();
+    const match = ISO_WEEK_DATE_EXTENDED.exec(trimmed) ?? ISO_WEEK_DATE_BASIC.exec(trimmed);
+
+    if (!isDefined(match)) {
+        return err(new Error(`Invalid ISO week date "${value}"`));
+    }
+
+    const result = fromTry(() => fromISOWeek(Number(match[1]), Number(match[2]), isDefined(match[3]) ? Number(match[3]) : 1, options));
+    return result.ok ? result : err(new Error(`Invalid ISO week date "${value}": ${(result.error as Error).message}`));
+};
@@ -0,0 +1,217 @@
+import type { Result } from '../types.js';
+import { formatNumber } from './number.js';
+import { err, isDefined, ok } from './std.js';
+
+/**
+ * Exact decimal number stored as `units / 10 ** scale`, so `1.05` is `{ units: 105n, scale: 2 }`.
+ */
+export type Decimal = Readonly<{
+    units: bigint;
+    scale: number;
+}>;
+
+/**
+ * Anything the decimal helpers accept in place of a `Decimal`. Numbers are read from their shortest string form, so `1.005` stays `1.005`.
+ */
+export type DecimalInput = Decimal | string | number | bigint;
+
+/**
+ * How digits beyond the target scale are dropped.
+ * `half-up` rounds ties away from zero, `half-even` rounds them to the even neighbour (banker's rounding),
+ * `floor` and `ceil` round toward negative and positive infinity, and `truncate` rounds toward zero.
+ */
+export type RoundingMode = 'half-up' | 'half-even' | 'floor' | 'ceil' | 'truncate';
+
+const DECIMAL_PATTERN = /^([+-])?(\d+)(?:\.(\d*))?(?:e([+-]?\d+))?$|^([+-])?\.(\d+)(?:e([+-]?\d+))?$/i;
+
+/**
+ * Largest exponent `parseDecimal` accepts, so a short untrusted string cannot expand into millions of digits.
+ */
+const MAX_EXPONENT = 1000;
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+const assertScale = (scale: number): void => {
+    if (!Number.isInteger(scale) || scale < 0) {
+        throw new Error(`Decimal scale must be a non-negative integer, received ${scale}`);
+    }
+};
+
+const createDecimal = (units: bigint, scale: number): Decimal => Object.freeze({ units, scale });
+
+const rescale = (value: Decimal, scale: number): bigint => value.units * pow10(scale - value.scale);
+
+/**
+ * Divides two bigints and rounds the quotient according to the mode.
+ */
+const divideRounded = (numerator: bigint, denominator: bigint, mode: RoundingMode): bigint => {
+    if (denominator < 0n) {
+        return divideRounded(-numerator, -denominator, mode);
+    }
+
+    const quotient = numerator / denominator;
+    const remainder = numerator % denominator;
+    if (remainder === 0n) {
+        return quotient;
+    }
+
+    const sign = numerator < 0n ? -1n : 1n;
+    const twiceRemainder = 2n * (remainder < 0n ? -remainder : remainder);
+
+    switch (mode) {
+        case 'truncate':
+            return quotient;
+        case 'floor':
+            return sign < 0n ? quotient - 1n : quotient;
+        case 'ceil':
+            return sign > 0n ? quotient + 1n : quotient;
+        case 'half-up':
+            return twiceRemainder >= denominator ? quotient + sign : quotient;
+        case 'half-even':
+            if (twiceRemainder === denominator) {
+                return quotient % 2n === 0n ? quotient : quotient + sign;
+            }
+            return twiceRemainder > denominator ? quotient + sign : quotient;
+    }
+};
+
+/**
+ * Parses a decimal string such as `-12.50` or `1e-3`. Exponents are limited to ±1000.
+ * @returns An error result when the string is not a valid decimal or its exponent is out of range.
+ */
+export const parseDecimal = (value: string): Result<Decimal> => {
+    const match = DECIMAL_PATTERN.exec(value.trim());
+    if (!isDefined(match)) {
+        return err(new Error(`Invalid decimal "${value}"`));
+    }
+
+    const sign = match[1] ?? match[5];
+    const fraction = match[3] ?? match[6] ?? '';
+    const exponent = Number(match[4] ?? match[7] ?? 0);
+    if (Math.abs(exponent) > MAX_EXPONENT) {
+        return err(new Error(`Decimal exponent of "${value}" is out of range, expected at most ${MAX_EXPONENT} in magnitude`));
+    }
+
+    const units = BigInt(`${match[2] ?? ''}${fraction}`) * (sign === '-' ? -1n : 1n);
+    const scale = fraction.length - exponent;
+
+    return ok(scale < 0 ? createDecimal(units * pow10(-scale), 0) : createDecimal(units, scale));
+};
+
+/**
+ * Converts a number, bigint or numeric string to a `Decimal`, returning decimals unchanged.
+ * @throws Error when the value is not a finite number or a valid decimal string.
+ */
+export const decimal = (value: DecimalInput): Decimal => {
+    if (typeof value === 'object') {
+        return value;
+    }
+    if (typeof value === 'bigint') {
+        return createDecimal(value, 0);
+    }
+    if (typeof value === 'number' && !Number.isFinite(value)) {
+        throw new Error(`Cannot convert ${value} to a decimal`);
+    }
+
+    const result = parseDecimal(String(value));
+    if (!result.ok) {
+        throw result.error;
+    }
+    return result.value;
+};
+
+/**
+ * Writes the decimal as a plain string, keeping trailing zeros up to its scale (`1.50` stays `1.50`).
+ */
+export const decimalToString = (value: DecimalInput): string => {
+    const { units, scale } = decimal(value);
+    const digits = (units < 0n ? -units : units).toString().padStart(scale + 1, '0');
+    const integer = digits.slice(0, digits.length - scale);
+    const fraction = digits.slice(digits.length - scale);
+    return `${units < 0n ? '-' : ''}${integer}${scale > 0 ? `.${fraction}` : ''}`;
+};
+
+/**
+ * Converts the decimal to the nearest JavaScript number.
+ */
+export const decimalToNumber = (value: DecimalInput): number => Number(decimalToString(value));
+
+/**
+ * Rounds the decimal to the given number of fractional digits.
+ * @param mode Defaults to `half-up`.
+ * @throws Error when `scale` is not a non-negative integer.
+ */
+export const roundDecimal = (value: DecimalInput, scale: number, mode: RoundingMode = 'half-up'): Decimal => {
+    assertScale(scale);
+    const source = decimal(value);
+    if (scale >= source.scale) {
+        return createDecimal(rescale(source, scale), scale);
+    }
+    return createDecimal(divideRounded(source.units, pow10(source.scale - scale), mode), scale);
+};
+
+/**
+ * Adds two decimals exactly. The result keeps the larger scale.
+ */
+export const addDecimals = (a: DecimalInput, b: DecimalInput): Decimal => {
+    const left = decimal(a);
+    const right = decimal(b);
+    const scale = Math.max(left.scale, right.scale);
+    return createDecimal(rescale(left, scale) + rescale(right, scale), scale);
+};
+
+/**
+ * Subtracts `b` from `a` exactly. The result keeps the larger scale.
+ */
+export const subtractDecimals = (a: DecimalInput, b: DecimalInput): Decimal => addDecimals(a, negateDecimal(b));
+
+/**
+ * Multiplies two decimals exactly. The result scale is the sum of both scales.
+ */
+export const multiplyDecimals = (a: DecimalInput, b: DecimalInput): Decimal => {
+    const left = decimal(a);
+    const right = decimal(b);
+    return createDecimal(left.units * right.units, left.scale + right.scale);
+};
+
+/**
+ * Divides `a` by `b`, rounding the quotient to the requested scale.
+ * @param mode Defaults to `half-up`.
+ * @throws Error when dividing by zero or when `scale` is not a non-negative integer.
+ */
+export const divideDecimals = (a: DecimalInput, b: DecimalInput, scale: number, mode: RoundingMode = 'half-up'): Decimal => {
+    assertScale(scale);
+    const left = decimal(a);
+    const right = decimal(b);
+    if (right.units === 0n) {
+        throw new Error('Cannot divide a decimal by zero');
+    }
+
+    const exponent = scale + right.scale - left.scale;
+    const numerator = exponent >= 0 ? left.units * pow10(exponent) : left.units;
+    const denominator = exponent >= 0 ? right.units : right.units * pow10(-exponent);
+    return createDecimal(divideRounded(numerator, denominator, mode), scale);
+};
+
+/**
+ * Flips the sign of the decimal.
+ */
+export const negateDecimal = (value: DecimalInput): Decimal => {
+    const source = decimal(value);
+    return createDecimal(-source.units, source.scale);
+};
+
+/**
+ * Orders two decimals by value regardless of their scale.
+ * @returns -1 when `a` is smaller, 1 when it is larger and 0 when both are equal.
+ */
+export const compareDecimals = (a: DecimalInput, b: DecimalInput): number => {
+    const difference = subtractDecimals(a, b).units;
+    return difference === 0n ? 0 : difference < 0n ? -1 : 1;
+};
+
+/**
+ * Formats the decimal through `formatNumber` without converting it to a floating point number first.
+ */
+export const formatDecimal = (value: DecimalInput, locales?: Intl.LocalesArgument, options?: Intl.NumberFormatOptions): string =>
+    formatNumber(decimalToString(value) as Intl.StringNumericLiteral, locales, options);
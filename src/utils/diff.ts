@@ -0,0 +1,337 @@
+import type { Transformer } from '../types.js';
+import { identity, isDefined } from './std.js';
+
+export type ArrayDiffOptions<T> = {
+    /**
+     * Identifies an item across versions, e.g. `(row) => row.id`. Defaults to the item itself.
+     */
+    key?: Transformer<T, unknown>;
+    /**
+     * Decides whether two items with the same key are unchanged. Defaults to `Object.is`.
+     */
+    equals?: (previous: T, next: T) => boolean;
+};
+
+/**
+ * One step of an edit script. Indexes refer to the array as left by the previous steps.
+ */
+export type ArrayDiffOperation<T> =
+    | { type: 'delete'; index: number; item: T }
+    | { type: 'move'; from: number; to: number; item: T }
+    | { type: 'insert'; index: number; item: T }
+    | { type: 'update'; index: number; previous: T; item: T };
+
+/**
+ * Beyond this many edits in the unmatched middle section, Myers' algorithm gives way to a cheaper
+ * longest-increasing-subsequence match on keys, which keeps memory bounded on unrelated lists.
+ */
+const MAX_EDIT_DISTANCE = 1024;
+
+const sameKey = (a: unknown, b: unknown): boolean => a === b || (a !== a && b !== b);
+
+/**
+ * Myers' O((N+M)D) diff, returning the matched index pairs of a longest common subsequence,
+ * or undefined when the lists differ by more than `MAX_EDIT_DISTANCE` edits.
+ */
+const myersMatches = (a: unknown[], b: unknown[]): Array<[number, number]> | undefined => {
+    const n = a.length;
+    const m = b.length;
+    const offset = n + m + 1;
+    const frontier = new Int32Array(2 * offset + 1);
+    const trace: Int32Array[] = [];
+
+    for (let d = 0; d <= Math.min(n + m, MAX_EDIT_DISTANCE); d += 1) {
+        for (let k = -d; k <= d; k += 2) {
+            let x =
+                k === -d || (k !== d && frontier[offset + k - 1]! < frontier[offset + k + 1]!)
+                    ? frontier[offset + k + 1]!
+                    : frontier[offset + k - 1]! + 1;
+            let y = x - k;
+            while (x < n && y < m && sameKey(a[x], b[y])) {
+                x += 1;
+                y += 1;
+            }
+            frontier[offset + k] = x;
+
+            if (x >= n && y >= m) {
+                trace.push(frontier.slice(offset - d, offset + d + 1));
+                return backtrack(trace, n, m);
+            }
+        }
+        trace.push(frontier.slice(offset - d, offset + d + 1));
+    }
+
+    return undefined;
+};
+
+const backtrack = (trace: Int32Array[], n: number, m: number): Array<[number, number]> => {
+    const matches: Array<[number, number]> = [];
+    let x = n;
+    let y = m;
+
+    for (let d = trace.length - 1; d > 0; d -= 1) {
+        const previous = trace[d - 1]!;
+        const at = (k: number): number => previous[k + d - 1]!;
+        const k = x - y;
+        const previousK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+        const previousX = at(previousK);
+        const previousY = previousX - previousK;
+
+        while (x > previousX && y > previousY) {
+            x -= 1;
+            y -= 1;
+            matches.push([x, y]);
+        }
+        x = previousX;
+        y = previousY;
+    }
+
+    while (x > 0 && y > 0) {
+        x -= 1;
+        y -= 1;
+        matches.push([x, y]);
+    }
+
+    return matches.reverse();
+};
+
+/**
+ * Pairs items by key in order of appearance and keeps the longest run whose positions increase in both lists.
+ */
+const increasingMatches = (a: unknown[], b: unknown[]): Array<[number, number]> => {
+    const positions = new Map<unknown, number[]>();
+    a.forEach((key, index) => {
+        const list = positions.get(key);
+        if (isDefined(list)) {
+            list.push(index);
+        } else {
+            positions.set(key, [index]);
+        }
+    });
+
+    const candidates: Array<[number, number]> = [];
+    b.forEach((key, index) => {
+        const next = positions.get(key)?.shift();
+        if (isDefined(next)) {
+            candidates.push([next, index]);
+        }
+    });
+
+    // Patience sorting: tails[length] holds the candidate ending the best run of that length.
+    const tails: number[] = [];
+    const parents = new Int32Array(candidates.length).fill(-1);
+    candidates.forEach(([position], index) => {
+        let low = 0;
+        let high = tails.length;
+        while (low < high) {
+            const middle = (low + high) >>> 1;
+            if (candidates[tails[middle]!]![0] < position) {
+                low = middle + 1;
+            } else {
+                high = middle;
+            }
+        }
+        parents[index] = low > 0 ? tails[low - 1]! : -1;
+        tails[low] = index;
+    });
+
+    const matches: Array<[number, number]> = [];
+    for (let index = tails[tails.length - 1] ?? -1; index !== -1; index = parents[index]!) {
+        matches.push(candidates[index]!);
+    }
+    return matches.reverse();
+};
+
+/**
+ * Fenwick tree counting occupied slots, so positions in the working array are found in O(log n) while items move.
+ */
+const createSlotCounter = (size: number) => {
+    const tree = new Int32Array(size + 1);
+    return {
+        add: (slot: number, delta: number): void => {
+            for (let index = slot + 1; index <= size; index += index & -index) {
+                tree[index] = tree[index]! + delta;
+            }
+        },
+        before: (slot: number): number => {
+            let total = 0;
+            for (let index = slot; index > 0; index -= index & -index) {
+                total += tree[index]!;
+            }
+            return total;
+        },
+    };
+};
+
+/**
+ * Computes an edit script turning `a` into `b`: deletions, then moves, then insertions, then updates.
+ * Items kept in place are found with Myers' algorithm after trimming the common prefix and suffix,
+ * so small edits on long lists stay cheap. Unmatched items sharing a key become moves.
+ */
+export const diffArrays = <T>(a: T[], b: T[], options?: ArrayDiffOptions<T>): Array<ArrayDiffOperation<T>> => {
+    const key = options?.key ?? identity;
+    const equals = options?.equals ?? Object.is;
+    const keysA = a.map(key);
+    const keysB = b.map(key);
+    const matchA = new Int32Array(a.length).fill(-1);
+    const matchB = new Int32Array(b.length).fill(-1);
+    const settled = new Uint8Array(b.length);
+
+    const pair = (i: number, j: number, stays: boolean): void => {
+        matchA[i] = j;
+        matchB[j] = i;
+        settled[j] = stays ? 1 : 0;
+    };
+
+    let start = 0;
+    while (start < a.length && start < b.length && sameKey(keysA[start], keysB[start])) {
+        pair(start, start, true);
+        start += 1;
+    }
+
+    let endA = a.length;
+    let endB = b.length;
+    while (endA > start && endB > start && sameKey(keysA[endA - 1], keysB[endB - 1])) {
+        endA -= 1;
+        endB -= 1;
+        pair(endA, endB, true);
+    }
+
+    const middleA = keysA.slice(start, endA);
+    const middleB = keysB.slice(start, endB);
+    for (const [i, j] of myersMatches(middleA, middleB) ?? increasingMatches(middleA, middleB)) {
+        pair(start + i, start + j, true);
+    }
+
+    const leftovers = new Map<unknown, number[]>();
+    for (let i = start; i < endA; i += 1) {
+        if (matchA[i] === -1) {
+            const list = leftovers.get(keysA[i]);
+            if (isDefined(list)) {
+                list.push(i);
+            } else {
+                leftovers.set(keysA[i], [i]);
+            }
+        }
+    }
+    for (let j = start; j < endB; j += 1) {
+        const i = matchB[j] === -1 ? leftovers.get(keysB[j])?.shift() : undefined;
+        if (isDefined(i)) {
+            pair(i, j, false);
+        }
+    }
+
+    const operations: Array<ArrayDiffOperation<T>> = [];
+
+    for (let i = a.length - 1; i >= 0; i -= 1) {
+        if (matchA[i] === -1) {
+            operations.push({ type: 'delete', index: i, item: a[i] as T });
+        }
+    }
+
+    // Each moved item goes right after the closest preceding item of `b` that is already in place. Slots order the
+    // working array: item `i` first sits in the base slot of `i`, and a moved item takes the next slot in the chain
+    // following the base slot of the item kept in place before it in `b` (chain -1 is the front of the array).
+    const target = new Int32Array(b.length);
+    const chainLengths = new Int32Array(a.length + 1);
+    let anchor = -1;
+    for (let j = 0; j < b.length; j += 1) {
+        if (matchB[j] === -1) {
+            continue;
+        }
+        if (settled[j] === 1) {
+            anchor = matchB[j]!;
+        } else {
+            chainLengths[anchor + 1] = chainLengths[anchor + 1]! + 1;
+            target[j] = anchor;
+        }
+    }
+
+    const chainStarts = new Int32Array(a.length + 1);
+    for (let chain = 1; chain <= a.length; chain += 1) {
+        chainStarts[chain] = chainStarts[chain - 1]! + chainLengths[chain - 1]! + 1;
+    }
+    const baseSlot = (i: number): number => chainStarts[i + 1]!;
+
+    const occupied = createSlotCounter(chainStarts[a.length]! + chainLengths[a.length]! + 1);
+    matchA.forEach((j, i) => {
+        if (j !== -1) {
+            occupied.add(baseSlot(i), 1);
+        }
+    });
+
+    const chainFill = new Int32Array(a.length + 1);
+    for (let j = 0; j < b.length; j += 1) {
+        const i = matchB[j]!;
+        if (i === -1 || settled[j] === 1) {
+            continue;
+        }
+
+        const from = occupied.before(baseSlot(i));
+        occupied.add(baseSlot(i), -1);
+
+        const chain = target[j]! + 1;
+        chainFill[chain] = chainFill[chain]! + 1;
+        const slot = chainStarts[chain]! + chainFill[chain];
+        const to = occupied.before(slot);
+        occupied.add(slot, 1);
+
+        if (from !== to) {
+            operations.push({ type: 'move', from, to, item: a[i] as T });
+        }
+    }
+
+    for (let j = 0; j < b.length; j += 1) {
+        if (matchB[j] === -1) {
+            operations.push({ type: 'insert', index: j, item: b[j] as T });
+        }
+    }
+
+    for (let j = 0; j < b.length; j += 1) {
+        const i = matchB[j]!;
+        if (i !== -1 && !equals(a[i] as T, b[j] as T)) {
+            operations.push({ type: 'update', index: j, previous: a[i] as T, item: b[j] as T });
+        }
+    }
+
+    return operations;
+};
+
+/**
+ * Replays an edit script from `diffArrays` on a copy of the array.
+ * @throws Error when an operation points outside the array.
+ */
+export const applyArrayDiff = <T>(array: T[], operations: Array<ArrayDiffOperation<T>>): T[] => {
+    const result = [...array];
+    const assertIndex = (index: number, length: number): void => {
+        if (!Number.isInteger(index) || index < 0 || index >= length) {
+            throw new Error(`Diff operation index ${index} is out of bounds`);
+        }
+    };
+
+    for (const operation of operations) {
+        switch (operation.type) {
+            case 'delete':
+                assertIndex(operation.index, result.length);
+                result.splice(operation.index, 1);
+                break;
+            case 'move': {
+                assertIndex(operation.from, result.length);
+                assertIndex(operation.to, result.length);
+                const [item] = result.splice(operation.from, 1);
+                result.splice(operation.to, 0, item as T);
+                break;
+            }
+            case 'insert':
+                assertIndex(operation.index, result.length + 1);
+                result.splice(operation.index, 0, operation.item);
+                break;
+            case 'update':
+                assertIndex(operation.index, result.length);
+                result[operation.index] = operation.item;
+                break;
+        }
+    }
+
+    return result;
+};
@@ -0,0 +1,336 @@
+import type { Result } from '../types.js';
+import {
+    MILLISECOND_IN_DAY,
+    MILLISECOND_IN_HOUR,
+    MILLISECOND_IN_MINUTE,
+    MILLISECOND_IN_SECOND,
+    MILLISECOND_IN_WEEK,
+    dateDiff,
+    modifyDate,
+    now,
+} from './date.js';
+import type { DateHelperOptions, DateUnit } from './date.js';
+import { err, isDefined, ok } from './std.js';
+
+/**
+ * An amount of time expressed as a value per `DateUnit`, e.g. `{ month: 1, day: 3, hour: 2 }`.
+ */
+export type Duration = Partial<Record<DateUnit, number>>;
+
+export type DurationDiffOptions = DateHelperOptions & {
+    /**
+     * Units the difference is broken down into, defaults to every unit except `week` and `quarter`.
+     */
+    units?: DateUnit[];
+};
+
+const DURATION_UNITS: DateUnit[] = ['year', 'quarter', 'month', 'week', 'day', 'hour', 'minute', 'second', 'millisecond'];
+const DEFAULT_DIFF_UNITS: DateUnit[] = ['year', 'month', 'day', 'hour', 'minute', 'second', 'millisecond'];
+
+/**
+ * Units whose length never depends on the calendar, with their size in milliseconds.
+ */
+const FIXED_UNIT_SIZES: Array<[DateUnit, number]> = [
+    ['week', MILLISECOND_IN_WEEK],
+    ['day', MILLISECOND_IN_DAY],
+    ['hour', MILLISECOND_IN_HOUR],
+    ['minute', MILLISECOND_IN_MINUTE],
+    ['second', MILLISECOND_IN_SECOND],
+    ['millisecond', 1],
+];
+
+const ISO_DURATION_PATTERN =
+    /^([+-])?P(?:(\d+(?:[.,]\d+)?)Y)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)W)?(?:(\d+(?:[.,]\d+)?)D)?(?:T(?:(\d+(?:[.,]\d+)?)H)?(?:(\d+(?:[.,]\d+)?)M)?(?:(\d+(?:[.,]\d+)?)S)?)?$/i;
+const ISO_PATTERN_UNITS: DateUnit[] = ['year', 'month', 'week', 'day', 'hour', 'minute', 'second'];
+
+const invalidDuration = (value: string): Error => new Error(`Invalid ISO 8601 duration: "${value}"`);
+
+const compactDuration = (duration: Duration): Duration => {
+    return DURATION_UNITS.reduce<Duration>((acc, unit) => {
+        const value = duration[unit];
+        if (isDefined(value) && value !== 0) {
+            acc[unit] = value;
+        }
+        return acc;
+    }, {});
+};
+
+const splitUnits = (total: number, units: Array<[DateUnit, number]>): Duration => {
+    const sign = total < 0 ? -1 : 1;
+    let remaining = Math.abs(total);
+
+    return units.reduce<Duration>((acc, [unit, size]) => {
+        const value = Math.floor(remaining / size);
+        remaining -= value * size;
+        if (value !== 0) {
+            acc[unit] = value * sign;
+        }
+        return acc;
+    }, {});
+};
+
+/**
+ * Parses an ISO 8601 duration such as `P1M3DT2H` or `-PT1.5S`.
+ * A fractional week, day, hour, minute or second is split into smaller units (`PT1.5H` gives one hour and 30 minutes),
+ * counting days as 24 hours. Fractional years and months are rejected since their length varies.
+ */
+export const parseDuration = (value: string): Result<Duration> => {
+    const trimmed = value.trim();
+    const match = ISO_DURATION_PATTERN.exec(trimmed);
+
+    if (!isDefined(match) || trimmed.endsWith('T') || trimmed.toUpperCase().endsWith('P')) {
+        return err(invalidDuration(value));
+    }
+
+    const components = ISO_PATTERN_UNITS.map((unit, index) => [unit, match[index + 2]] as const).filter(
+        (entry): entry is readonly [DateUnit, string] => isDefined(entry[1]),
+    );
+
+    const fractionIndex = components.findIndex(([, raw]) => /[.,]/.test(raw));
+    if (fractionIndex !== -1 && fractionIndex !== components.length - 1) {
+        return err(invalidDuration(value));
+    }
+
+    const sign = match[1] === '-' ? -1 : 1;
+    const duration: Duration = {};
+    for (const [unit, raw] of components) {
+        const amount = Number(raw.replace(',', '.'));
+        if (Number.isInteger(amount)) {
+            duration[unit] = amount * sign;
+            continue;
+        }
+
+        const fixedIndex = FIXED_UNIT_SIZES.findIndex(([fixedUnit]) => fixedUnit === unit);
+        if (fixedIndex === -1) {
+            // Years and months have no fixed length, so their fractions cannot be split.
+            return err(invalidDuration(value));
+        }
+
+        const whole = Math.trunc(amount);
+        const fraction = Math.round((amount - whole) * FIXED_UNIT_SIZES[fixedIndex]![1]);
+        duration[unit] = whole * sign;
+        Object.assign(duration, splitUnits(fraction * sign, FIXED_UNIT_SIZES.slice(fixedIndex + 1)));
+    }
+
+    return ok(compactDuration(duration));
+};
+
+const formatComponent = (value: number, designator: string, negate: boolean): string => {
+    if (value === 0) {
+        return '';
+    }
+    return `${negate ? -value : value}${designator}`;
+};
+
+/**
+ * Writes seconds with up to three decimals from whole milliseconds, so the output never uses exponent notation
+ * or carries floating point artifacts such as `PT0.30000000000000004S`.
+ */
+const formatSeconds = (milliseconds: number): string => {
+    if (milliseconds === 0) {
+        return '';
+    }
+
+    const whole = Math.floor(milliseconds / MILLISECOND_IN_SECOND);
+    const fraction = String(milliseconds % MILLISECOND_IN_SECOND)
+        .padStart(3, '0')
+        .replace(/0+$/, '');
+    return `${whole}${fraction ? `.${fraction}` : ''}S`;
+};
+
+/**
+ * Serializes a duration to ISO 8601, e.g. `{ month: 1, day: 3, hour: 2 }` to `P1M3DT2H`.
+ * Quarters are written as months and milliseconds are folded into fractional seconds, rounded to the millisecond.
+ * An empty duration renders as `PT0S`.
+ * @throws Error when the duration mixes positive and negative values, which ISO 8601 cannot express.
+ */
+export const formatDuration = (duration: Duration): string => {
+    const compacted = compactDuration(duration);
+    const months = (compacted.quarter ?? 0) * 3 + (compacted.month ?? 0);
+    const values = [
+        compacted.year,
+        months,
+        compacted.week,
+        compacted.day,
+        compacted.hour,
+        compacted.minute,
+        compacted.second,
+        compacted.millisecond,
+    ].filter((value): value is number => isDefined(value) && value !== 0);
+
+    const negative = values.length > 0 && values.every((value) => value < 0);
+    if (!negative && values.some((value) => value < 0)) {
+        throw new Error('Cannot format a duration mixing positive and negative values as ISO 8601');
+    }
+
+    const milliseconds = Math.round(Math.abs((compacted.second ?? 0) * MILLISECOND_IN_SECOND + (compacted.millisecond ?? 0)));
+    const date = [
+        formatComponent(compacted.year ?? 0, 'Y', negative),
+        formatComponent(months, 'M', negative),
+        formatComponent(compacted.week ?? 0, 'W', negative),
+        formatComponent(compacted.day ?? 0, 'D', negative),
+    ].join('');
+    const time = [
+        formatComponent(compacted.hour ?? 0, 'H', negative),
+        formatComponent(compacted.minute ?? 0, 'M', negative),
+        formatSeconds(milliseconds),
+    ].join('');
+
+    if (date === '' && time === '') {
+        return 'PT0S';
+    }
+    return `${negative ? '-' : ''}P${date}${time ? `T${time}` : ''}`;
+};
+
+/**
+ * Adds durations together unit by unit without balancing them.
+ */
+export const addDurations = (...durations: Duration[]): Duration => {
+    return compactDuration(
+        durations.reduce<Duration>((acc, duration) => {
+            for (const unit of DURATION_UNITS) {
+                const value = duration[unit];
+                if (isDefined(value)) {
+                    acc[unit] = (acc[unit] ?? 0) + value;
+                }
+            }
+            return acc;
+        }, {}),
+    );
+};
+
+/**
+ * Flips the sign of every unit in the duration.
+ */
+export const negateDuration = (duration: Duration): Duration => {
+    return DURATION_UNITS.reduce<Duration>((acc, unit) => {
+        const value = duration[unit];
+        if (isDefined(value) && value !== 0) {
+            acc[unit] = -value;
+        }
+        return acc;
+    }, {});
+};
+
+/**
+ * Balances overflowing units into larger ones where the ratio is fixed
+ * (milliseconds up to weeks, and quarters and months into years). Days are never balanced into months.
+ */
+export const normalizeDuration = (duration: Duration): Duration => {
+    const fixedTotal = FIXED_UNIT_SIZES.reduce((total, [unit, size]) => total + (duration[unit] ?? 0) * size, 0);
+    const monthTotal = (duration.year ?? 0) * 12 + (duration.quarter ?? 0) * 3 + (duration.month ?? 0);
+
+    return {
+        ...splitUnits(monthTotal, [
+            ['year', 12],
+            ['month', 1],
+        ]),
+        ...splitUnits(fixedTotal, FIXED_UNIT_SIZES),
+    };
+};
+
+/**
+ * Converts a duration to milliseconds by applying it to a reference date, so months and
+ * years (and days across DST in a time zone) resolve to their real length.
+ * @param reference Date the duration starts from, defaults to `now()`.
+ */
+export const durationToMilliseconds = (duration: Duration, reference: Date = now(), options?: DateHelperOptions): number => {
+    return modifyDate(duration, reference, options).getTime() - reference.getTime();
+};
+
+/**
+ * Breaks the difference between two dates down into a duration, filling the largest units first
+ * so that `modifyDate(dateDiffDuration(start, end), start)` lands on `end`.
+ */
+export const dateDiffDuration = (start: Date, end: Date, options?: DurationDiffOptions): Duration => {
+    const requested = new Set(options?.units ?? DEFAULT_DIFF_UNITS);
+    const units = DURATION_UNITS.filter((unit) => requested.has(unit));
+    const result: Duration = {};
+    let cursor = start;
+
+    // Options are always passed so days are calendar days, matching how `modifyDate` moves the cursor.
+    for (const unit of units) {
+        const value = Math.trunc(dateDiff(cursor, end, unit, options ?? {}));
+        if (value !== 0) {
+            result[unit] = value;
+            cursor = modifyDate(value, unit, cursor, options);
+        }
+    }
+
+    return result;
+};
+
+export type DurationMsFormatOptions = {
+    /**
+     * Keeps only the given number of leading units, rounding the last one shown. Defaults to every non-zero unit.
+     */
+    maxUnits?: number;
+    /**
+     * Text placed between units, defaults to a space.
+     */
+    separator?: string;
+};
+
+const MS_UNITS: Array<[string, number]> = [
+    ['d', MILLISECOND_IN_DAY],
+    ['h', MILLISECOND_IN_HOUR],
+    ['m', MILLISECOND_IN_MINUTE],
+    ['s', MILLISECOND_IN_SECOND],
+    ['ms', 1],
+];
+const MS_UNIT_SIZES = new Map(MS_UNITS);
+const DURATION_MS_PATTERN = /^([+-])?\s*((?:(?:\d+(?:\.\d*)?|\.\d+)\s*(?:ms|[dhms])\s*)+)$/i;
+const DURATION_MS_COMPONENT = /(\d+(?:\.\d*)?|\.\d+)\s*(ms|[dhms])/gi;
+
+/**
+ * Renders milliseconds as a compact string such as `2h 30m 5s`, skipping zero units.
+ * @throws Error when the value is not finite or `maxUnits` is not a positive integer.
+ */
+export const formatDurationMs = (milliseconds: number, options?: DurationMsFormatOptions): string => {
+    if (!Number.isFinite(milliseconds)) {
+        throw new Error(`Cannot format ${milliseconds} milliseconds`);
+    }
+
+    const maxUnits = options?.maxUnits ?? MS_UNITS.length;
+    if (!Number.isInteger(maxUnits) || maxUnits < 1) {
+        throw new Error(`maxUnits must be a positive integer, received ${maxUnits}`);
+    }
+
+    let remaining = Math.round(Math.abs(milliseconds));
+    const first = Math.max(
+        0,
+        MS_UNITS.findIndex(([, size]) => remaining >= size),
+    );
+    const [, smallest] = MS_UNITS[Math.min(first + maxUnits, MS_UNITS.length) - 1] as [string, number];
+    remaining = Math.round(remaining / smallest) * smallest;
+
+    const parts = MS_UNITS.flatMap(([unit, size]) => {
+        const value = Math.floor(remaining / size);
+        remaining -= value * size;
+        return value > 0 ? [`${value}${unit}`] : [];
+    });
+
+    if (parts.length === 0) {
+        return '0ms';
+    }
+    return `${milliseconds < 0 ? '-' : ''}${parts.join(options?.separator ?? ' ')}`;
+};
+
+/**
+ * Parses strings such as `2h 30m 5s`, `1.5d` or `250ms` into milliseconds.
+ * Units are `d`, `h`, `m`, `s` and `ms`, in any order; a leading sign applies to the whole value.
+ * @returns An error result when the string contains anything else.
+ */
+export const parseDurationMs = (value: string): Result<number> => {
+    const match = DURATION_MS_PATTERN.exec(value.trim());
+    if (!isDefined(match)) {
+        return err(new Error(`Invalid duration "${value}", expected values such as "2h 30m" or "1.5d"`));
+    }
+
+    let total = 0;
+    for (const [, amount, unit] of (match[2] as string).matchAll(DURATION_MS_COMPONENT)) {
+        total += Number(amount) * (MS_UNIT_SIZES.get((unit as string).toLowerCase()) as number);
+    }
+
+    return ok(match[1] === '-' ? -total : total);
+};
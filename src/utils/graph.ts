@@ -0,0 +1,161 @@
+import type { Result, Transformer } from '../types.js';
+import { err, ok } from './std.js';
+
+/**
+ * Directed graph as adjacency lists: each node maps to the nodes it depends on.
+ * Nodes that only appear as dependencies do not need an entry of their own.
+ */
+export type Graph<T> = Map<T, T[]>;
+
+/**
+ * Error returned when a graph cannot be ordered. `cycle` starts and ends with the same node,
+ * each node depending on the next one.
+ */
+export type CycleError<T> = Error & { cycle: T[] };
+
+/**
+ * Builds a graph from a list of nodes and a function returning the dependencies of each node.
+ */
+export const createGraph = <T>(nodes: T[], dependencies: Transformer<T, T[]>): Graph<T> => new Map(nodes.map((node) => [node, dependencies(node)]));
+
+/**
+ * Lists every node in insertion order, including nodes only known as dependencies.
+ */
+const nodesOf = <T>(graph: Graph<T>): T[] => {
+    const nodes = new Set<T>();
+    graph.forEach((dependencies, node) => {
+        nodes.add(node);
+        dependencies.forEach((dependency) => nodes.add(dependency));
+    });
+    return [...nodes];
+};
+
+/**
+ * Compares nodes the way `Map` keys do, so NaN matches itself.
+ */
+const sameNode = (a: unknown, b: unknown): boolean => a === b || (a !== a && b !== b);
+
+const dependenciesFrom = <T>(graph: Graph<T>, node: T): T[] => graph.get(node) ?? [];
+
+const reverse = <T>(graph: Graph<T>): Graph<T> => {
+    const reversed: Graph<T> = new Map(nodesOf(graph).map((node) => [node, []]));
+    graph.forEach((dependencies, node) => {
+        new Set(dependencies).forEach((dependency) => reversed.get(dependency)!.push(node));
+    });
+    return reversed;
+};
+
+/**
+ * Walks dependencies from a node left in a cycle until one repeats, which closes the loop.
+ */
+const findCycle = <T>(graph: Graph<T>, remaining: Set<T>): CycleError<T> => {
+    const path: T[] = [];
+    const positions = new Map<T, number>();
+    let current = remaining.values().next().value as T;
+
+    while (!positions.has(current)) {
+        positions.set(current, path.length);
+        path.push(current);
+        // Every node left over still waits on at least one node that is also left over.
+        current = dependenciesFrom(graph, current).find((dependency) => remaining.has(dependency)) as T;
+    }
+
+    const cycle = [...path.slice(positions.get(current)), current];
+    return Object.assign(new Error(`Dependency cycle detected: ${cycle.map(String).join(' -> ')}`), { cycle });
+};
+
+/**
+ * Groups nodes into layers: each layer only depends on earlier layers, so the nodes of a layer can run in parallel.
+ * Within a layer, nodes keep their insertion order.
+ */
+export const topoLayers = <T>(graph: Graph<T>): Result<T[][], CycleError<T>> => {
+    const dependents = reverse(graph);
+    const waiting = new Map<T, number>(nodesOf(graph).map((node) => [node, new Set(dependenciesFrom(graph, node)).size]));
+    const layers: T[][] = [];
+    let layer = [...waiting.keys()].filter((node) => waiting.get(node) === 0);
+
+    while (layer.length > 0) {
+        layers.push(layer);
+        layer.forEach((node) => waiting.delete(node));
+
+        const next: T[] = [];
+        for (const node of layer) {
+            for (const dependent of dependents.get(node)!) {
+                const count = waiting.get(dependent)! - 1;
+                waiting.set(dependent, count);
+                if (count === 0) {
+                    next.push(dependent);
+                }
+            }
+        }
+        layer = next;
+    }
+
+    return waiting.size > 0 ? err(findCycle(graph, new Set(waiting.keys()))) : ok(layers);
+};
+
+/**
+ * Orders nodes so every node comes after its dependencies.
+ * @returns The ordered nodes, or an error listing a cycle when there is no valid order.
+ */
+export const topoSort = <T>(graph: Graph<T>): Result<T[], CycleError<T>> => {
+    const layers = topoLayers(graph);
+    return layers.ok ? ok(layers.value.flat()) : layers;
+};
+
+/**
+ * Breadth-first search from `start`, returning each reached node with the node it was reached from.
+ */
+const search = <T>(graph: Graph<T>, start: T, until?: T): Map<T, T | undefined> => {
+    const previous = new Map<T, T | undefined>([[start, undefined]]);
+    const queue = [start];
+
+    for (let head = 0; head < queue.length; head += 1) {
+        const node = queue[head] as T;
+        if (node === until) {
+            break;
+        }
+        for (const dependency of dependenciesFrom(graph, node)) {
+            if (!previous.has(dependency)) {
+                previous.set(dependency, node);
+                queue.push(dependency);
+            }
+        }
+    }
+
+    return previous;
+};
+
+/**
+ * Checks whether `to` can be reached from `from` by following dependencies. A node always reaches itself.
+ */
+export const isReachable = <T>(graph: Graph<T>, from: T, to: T): boolean => search(graph, from, to).has(to);
+
+/**
+ * Returns every node `node` depends on, directly or not, nearest first.
+ */
+export const transitiveDependencies = <T>(graph: Graph<T>, node: T): T[] => [...search(graph, node).keys()].filter((other) => other !== node);
+
+/**
+ * Returns every node depending on `node`, directly or not, nearest first.
+ */
+export const transitiveDependents = <T>(graph: Graph<T>, node: T): T[] => transitiveDependencies(reverse(graph), node);
+
+/**
+ * Finds a path with the fewest edges from `from` to `to`, both included.
+ * @returns The path, or undefined when `to` cannot be reached.
+ */
+export const shortestPath = <T>(graph: Graph<T>, from: T, to: T): T[] | undefined => {
+    const previous = search(graph, from, to);
+    if (!previous.has(to)) {
+        return undefined;
+    }
+
+    // Nodes may themselves be null or undefined, so the walk stops at `from` rather than at a missing predecessor.
+    const path = [to];
+    for (let node = to; !sameNode(node, from); ) {
+        node = previous.get(node) as T;
+        path.push(node);
+    }
+    return path.reverse();
+};
@@ -0,0 +1,112 @@
+import { modifyDate, startOf } from './date.js';
+import type { DateHelperOptions, DateUnit } from './date.js';
+import { isDefined } from './std.js';
+
+/**
+ * A span of time including `start` and excluding `end`.
+ */
+export type DateInterval = {
+    start: Date;
+    end: Date;
+};
+
+const isEmptyInterval = (interval: DateInterval): boolean => interval.end.getTime() <= interval.start.getTime();
+
+/**
+ * Creates an interval, copying both dates.
+ * @throws Error when `end` is before `start`.
+ */
+export const createInterval = (start: Date, end: Date): DateInterval => {
+    if (end.getTime() < start.getTime()) {
+        throw new Error('Interval end must not be before its start');
+    }
+    return { start: new Date(start.getTime()), end: new Date(end.getTime()) };
+};
+
+/**
+ * Returns the start of the unit `steps` units after the one starting at `first`.
+ * Each boundary is derived from `first` rather than from the previous boundary, so a day starting late
+ * because midnight was skipped by a DST change does not shift every following day.
+ */
+const boundaryAfter = (first: Date, steps: number, unit: DateUnit, options?: DateHelperOptions): Date =>
+    startOf(modifyDate(steps, unit, first, options), unit, options);
+
+/**
+ * Lists the start of every unit (day, week, month...) that overlaps the interval.
+ * @param options Boundaries follow `startOf`, so `utc`, `timeZone` and `weekStartsOn` apply.
+ */
+export const eachOf = (interval: DateInterval, unit: DateUnit, options?: DateHelperOptions): Date[] => {
+    if (isEmptyInterval(interval)) {
+        return [];
+    }
+
+    const first = startOf(interval.start, unit, options);
+    const result: Date[] = [];
+    for (let cursor = first; cursor < interval.end; cursor = boundaryAfter(first, result.length, unit, options)) {
+        result.push(cursor);
+    }
+    return result;
+};
+
+/**
+ * Splits the interval at every unit boundary, trimming the first and last pieces to the interval.
+ * @param options Boundaries follow `startOf`, so `utc`, `timeZone` and `weekStartsOn` apply.
+ */
+export const splitBy = (interval: DateInterval, unit: DateUnit, options?: DateHelperOptions): DateInterval[] => {
+    const boundaries = eachOf(interval, unit, options);
+    return boundaries.map((boundary, index) => {
+        const next = boundaries[index + 1] ?? boundaryAfter(boundaries[0]!, index + 1, unit, options);
+        return {
+            start: boundary < interval.start ? new Date(interval.start.getTime()) : boundary,
+            end: next > interval.end ? new Date(interval.end.getTime()) : next,
+        };
+    });
+};
+
+/**
+ * Checks whether two intervals share at least one instant. Touching intervals do not overlap.
+ */
+export const overlaps = (a: DateInterval, b: DateInterval): boolean =>
+    a.start < b.end && b.start < a.end && !isEmptyInterval(a) && !isEmptyInterval(b);
+
+/**
+ * Checks whether a date or a whole interval lies within the interval.
+ */
+export const contains = (interval: DateInterval, value: Date | DateInterval): boolean => {
+    if (value instanceof Date) {
+        return interval.start <= value && value < interval.end;
+    }
+    return interval.start <= value.start && value.end <= interval.end;
+};
+
+/**
+ * Returns the span shared by both intervals, or undefined when they do not overlap.
+ */
+export const intersect = (a: DateInterval, b: DateInterval): DateInterval | undefined => {
+    if (!overlaps(a, b)) {
+        return undefined;
+    }
+
+    return createInterval(a.start > b.start ? a.start : b.start, a.end < b.end ? a.end : b.end);
+};
+
+/**
+ * Coalesces overlapping and touching intervals into a sorted list of disjoint intervals.
+ */
+export const mergeIntervals = (intervals: DateInterval[]): DateInterval[] => {
+    const sorted = [...intervals].sort((a, b) => a.start.getTime() - b.start.getTime());
+    const merged: DateInterval[] = [];
+
+    for (const interval of sorted) {
+        const last = merged[merged.length - 1];
+        if (isDefined(last) && interval.start <= last.end) {
+            if (interval.end > last.end) {
+                last.end = new Date(interval.end.getTime());
+            }
+        } else {
+            merged.push(createInterval(interval.start, interval.end));
+        }
+    }
+
+    return merged;
+};
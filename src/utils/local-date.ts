@@ -0,0 +1,219 @@
+import type { Result } from '../types.js';
+import { MILLISECOND_IN_DAY, fromDateParts, getDateParts, now } from './date.js';
+import type { DateHelperOptions, DateUnit } from './date.js';
+import { err, isDefined, ok } from './std.js';
+
+/**
+ * Calendar date without a time or zone, such as a birthday or a due date.
+ */
+export type LocalDate = Readonly<{
+    year: number;
+    /**
+     * One-based month (1 = January), matching the `YYYY-MM-DD` notation.
+     */
+    month: number;
+    day: number;
+}>;
+
+/**
+ * Units a `LocalDate` can be shifted, rounded and compared by.
+ */
+export type LocalDateUnit = Extract<DateUnit, 'day' | 'week' | 'month' | 'quarter' | 'year'>;
+
+const LOCAL_DATE_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const MONTHS_IN_UNIT: Record<Extract<LocalDateUnit, 'month' | 'quarter' | 'year'>, number> = { month: 1, quarter: 3, year: 12 };
+
+const assertUnsupportedUnit = (_unit: never): never => {
+    void _unit;
+    throw new Error('Unsupported LocalDateUnit');
+};
+
+const utcDate = (year: number, monthIndex: number, day: number): Date => {
+    const date = new Date(0);
+    date.setUTCFullYear(year, monthIndex, day);
+    return date;
+};
+
+const daysInMonth = (year: number, month: number): number => utcDate(year, month, 0).getUTCDate();
+
+const toDayNumber = (date: LocalDate): number => Math.floor(utcDate(date.year, date.month - 1, date.day).getTime() / MILLISECOND_IN_DAY);
+
+const fromDayNumber = (dayNumber: number): LocalDate => {
+    const date = new Date(dayNumber * MILLISECOND_IN_DAY);
+    return Object.freeze({ year: date.getUTCFullYear(), month: date.getUTCMonth() + 1, day: date.getUTCDate() });
+};
+
+const weekdayOf = (dayNumber: number): number => (((dayNumber + 4) % 7) + 7) % 7;
+
+const validateLocalDate = (year: number, month: number, day: number): string | undefined => {
+    if (!Number.isInteger(year) || !Number.isInteger(month) || !Number.isInteger(day)) {
+        return 'year, month and day must be integers';
+    }
+    if (month < 1 || month > 12) {
+        return `month ${month} is out of range`;
+    }
+    if (day < 1 || day > daysInMonth(year, month)) {
+        return `day ${day} is out of range for ${year}-${String(month).padStart(2, '0')}`;
+    }
+    return undefined;
+};
+
+const addMonths = (date: LocalDate, months: number): LocalDate => {
+    const total = date.year * 12 + date.month - 1 + months;
+    const year = Math.floor(total / 12);
+    const month = total - year * 12 + 1;
+    return Object.freeze({ year, month, day: Math.min(date.day, daysInMonth(year, month)) });
+};
+
+const diffInMonths = (start: LocalDate, end: LocalDate): number => {
+    let months = (end.year - start.year) * 12 + (end.month - start.month);
+    const anchor = compareLocalDates(addMonths(start, months), end);
+
+    if (months > 0 && anchor > 0) {
+        months -= 1;
+    } else if (months < 0 && anchor < 0) {
+        months += 1;
+    }
+
+    return months;
+};
+
+/**
+ * Creates a local date from its fields.
+ * @throws Error when the fields do not describe an existing calendar day.
+ */
+export const createLocalDate = (year: number, month: number, day: number): LocalDate => {
+    const problem = validateLocalDate(year, month, day);
+    if (isDefined(problem)) {
+        throw new Error(`Invalid local date: ${problem}`);
+    }
+    return Object.freeze({ year, month, day });
+};
+
+/**
+ * Parses a `YYYY-MM-DD` string without involving any time zone.
+ * @returns An error result when the string is malformed or the day does not exist.
+ */
+export const parseLocalDate = (value: string): Result<LocalDate> => {
+    const match = LOCAL_DATE_PATTERN.exec(value.trim());
+    if (!isDefined(match)) {
+        return err(new Error(`Invalid local date "${value}", expected YYYY-MM-DD`));
+    }
+
+    const [year, month, day] = [Number(match[1]), Number(match[2]), Number(match[3])];
+    const problem = validateLocalDate(year, month, day);
+    if (isDefined(problem)) {
+        return err(new Error(`Invalid local date "${value}": ${problem}`));
+    }
+
+    return ok(Object.freeze({ year, month, day }));
+};
+
+/**
+ * Formats a local date as `YYYY-MM-DD`.
+ */
+export const formatLocalDate = (date: LocalDate): string =>
+    `${String(date.year).padStart(4, '0')}-${String(date.month).padStart(2, '0')}-${String(date.day).padStart(2, '0')}`;
+
+/**
+ * Orders two local dates chronologically.
+ * @returns A negative number when `a` comes first, a positive one when `b` does and 0 when they are equal.
+ */
+export const compareLocalDates = (a: LocalDate, b: LocalDate): number => Math.sign(toDayNumber(a) - toDayNumber(b));
+
+/**
+ * Reads the calendar day an instant falls on in local time, UTC or the requested time zone.
+ */
+export const toLocalDate = (date: Date, options?: DateHelperOptions): LocalDate => {
+    const { year, month, day } = getDateParts(date, options);
+    return Object.freeze({ year, month: month + 1, day });
+};
+
+/**
+ * Returns the first instant of the local date in local time, UTC or the requested time zone.
+ * Midnights skipped by a DST transition move forward to the first existing instant.
+ */
+export const fromLocalDate = (date: LocalDate, options?: DateHelperOptions): Date =>
+    fromDateParts({ year: date.year, month: date.month - 1, day: date.day }, options);
+
+/**
+ * Returns the current calendar day of the installed clock in local time, UTC or the requested time zone.
+ */
+export const today = (options?: DateHelperOptions): LocalDate => toLocalDate(now(), options);
+
+/**
+ * Shifts a local date by whole units. Month-based units clamp to the end of shorter months, so Jan 31 plus one month is Feb 28 or 29.
+ * @throws Error when `value` is not an integer.
+ */
+export const addToLocalDate = (date: LocalDate, value: number, unit: LocalDateUnit): LocalDate => {
+    if (!Number.isInteger(value)) {
+        throw new Error(`Cannot shift a local date by ${value} ${unit}s`);
+    }
+
+    switch (unit) {
+        case 'day':
+            return fromDayNumber(toDayNumber(date) + value);
+        case 'week':
+            return fromDayNumber(toDayNumber(date) + value * 7);
+        case 'month':
+        case 'quarter':
+        case 'year':
+            return addMonths(date, value * MONTHS_IN_UNIT[unit]);
+        default:
+            return assertUnsupportedUnit(unit);
+    }
+};
+
+/**
+ * Counts the whole units elapsed from `start` to `end`, truncated toward zero.
+ * @returns A negative count when `end` is before `start`.
+ */
+export const localDateDiff = (start: LocalDate, end: LocalDate, unit: LocalDateUnit): number => {
+    switch (unit) {
+        case 'day':
+            return toDayNumber(end) - toDayNumber(start);
+        case 'week':
+            return Math.trunc((toDayNumber(end) - toDayNumber(start)) / 7);
+        case 'month':
+        case 'quarter':
+        case 'year':
+            return Math.trunc(diffInMonths(start, end) / MONTHS_IN_UNIT[unit]);
+        default:
+            return assertUnsupportedUnit(unit);
+    }
+};
+
+/**
+ * Returns the first day of the unit the local date belongs to.
+ * @param options `weekStartsOn` sets the first day of the week, defaulting to Sunday.
+ */
+export const startOfLocalDate = (date: LocalDate, unit: LocalDateUnit, options?: Pick<DateHelperOptions, 'weekStartsOn'>): LocalDate => {
+    switch (unit) {
+        case 'day':
+            return date;
+        case 'week': {
+            const dayNumber = toDayNumber(date);
+            const offset = (weekdayOf(dayNumber) - (options?.weekStartsOn ?? 0) + 7) % 7;
+            return fromDayNumber(dayNumber - offset);
+        }
+        case 'month':
+            return Object.freeze({ year: date.year, month: date.month, day: 1 });
+        case 'quarter':
+            return Object.freeze({ year: date.year, month: Math.floor((date.month - 1) / 3) * 3 + 1, day: 1 });
+        case 'year':
+            return Object.freeze({ year: date.year, month: 1, day: 1 });
+        default:
+            return assertUnsupportedUnit(unit);
+    }
+};
+
+/**
+ * Compares two local dates at the provided unit precision.
+ * @param options `weekStartsOn` sets the first day of the week, defaulting to Sunday.
+ */
+export const isSameLocalDate = (
+    a: LocalDate,
+    b: LocalDate,
+    unit: LocalDateUnit = 'day',
+    options?: Pick<DateHelperOptions, 'weekStartsOn'>,
+): boolean => compareLocalDates(startOfLocalDate(a, unit, options), startOfLocalDate(b, unit, options)) === 0;
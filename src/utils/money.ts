@@ -0,0 +1,161 @@
+import { addDecimals, compareDecimals, decimal, decimalToString, multiplyDecimals, roundDecimal, subtractDecimals } from './decimal.js';
+import type { Decimal, DecimalInput, RoundingMode } from './decimal.js';
+import { formatNumber } from './number.js';
+
+/**
+ * Amount of a currency, always rounded to the currency's minor units (cents, pence...).
+ */
+export type Money = Readonly<{
+    amount: Decimal;
+    /**
+     * ISO 4217 alphabetic code, e.g. `EUR`.
+     */
+    currency: string;
+}>;
+
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+/**
+ * ISO 4217 currencies whose minor unit is not two digits.
+ */
+const MINOR_UNIT_EXCEPTIONS: Record<string, number> = {
+    BHD: 3,
+    BIF: 0,
+    CLF: 4,
+    CLP: 0,
+    DJF: 0,
+    GNF: 0,
+    IQD: 3,
+    ISK: 0,
+    JOD: 3,
+    JPY: 0,
+    KMF: 0,
+    KRW: 0,
+    KWD: 3,
+    LYD: 3,
+    OMR: 3,
+    PYG: 0,
+    RWF: 0,
+    TND: 3,
+    UGX: 0,
+    UYI: 0,
+    UYW: 4,
+    VND: 0,
+    VUV: 0,
+    XAF: 0,
+    XOF: 0,
+    XPF: 0,
+};
+
+const createMoney = (amount: Decimal, currency: string): Money => Object.freeze({ amount, currency });
+
+const assertSameCurrency = (a: Money, b: Money): void => {
+    if (a.currency !== b.currency) {
+        throw new Error(`Cannot combine ${a.currency} with ${b.currency}`);
+    }
+};
+
+/**
+ * Returns the number of fractional digits of an ISO 4217 currency, which is 2 for most of them.
+ * @throws Error when the code is not three uppercase letters.
+ */
+export const getMinorUnits = (currency: string): number => {
+    if (!CURRENCY_PATTERN.test(currency)) {
+        throw new Error(`Invalid currency code "${currency}"`);
+    }
+    return MINOR_UNIT_EXCEPTIONS[currency] ?? 2;
+};
+
+/**
+ * Creates an amount of money, rounding it to the currency's minor units.
+ * @param mode Defaults to `half-up`.
+ * @throws Error when the amount or the currency code is invalid.
+ */
+export const money = (amount: DecimalInput, currency: string, mode: RoundingMode = 'half-up'): Money =>
+    createMoney(roundDecimal(amount, getMinorUnits(currency), mode), currency);
+
+/**
+ * Creates an amount of money from an integer count of minor units, so `moneyFromMinor(1999, 'USD')` is $19.99.
+ * @throws Error when the currency code is invalid or `minorUnits` is not an integer.
+ */
+export const moneyFromMinor = (minorUnits: bigint | number, currency: string): Money =>
+    createMoney(Object.freeze({ units: BigInt(minorUnits), scale: getMinorUnits(currency) }), currency);
+
+/**
+ * Adds two amounts of the same currency.
+ * @throws Error when the currencies differ.
+ */
+export const addMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return createMoney(addDecimals(a.amount, b.amount), a.currency);
+};
+
+/**
+ * Subtracts `b` from `a`, both in the same currency.
+ * @throws Error when the currencies differ.
+ */
+export const subtractMoney = (a: Money, b: Money): Money => {
+    assertSameCurrency(a, b);
+    return createMoney(subtractDecimals(a.amount, b.amount), a.currency);
+};
+
+/**
+ * Multiplies an amount by a factor such as a tax rate or a quantity, rounding back to minor units.
+ * @param mode Defaults to `half-up`.
+ */
+export const multiplyMoney = (value: Money, factor: DecimalInput, mode: RoundingMode = 'half-up'): Money =>
+    money(multiplyDecimals(value.amount, decimal(factor)), value.currency, mode);
+
+/**
+ * Orders two amounts of the same currency.
+ * @returns -1 when `a` is smaller, 1 when it is larger and 0 when both are equal.
+ * @throws Error when the currencies differ.
+ */
+export const compareMoney = (a: Money, b: Money): number => {
+    assertSameCurrency(a, b);
+    return compareDecimals(a.amount, b.amount);
+};
+
+/**
+ * Splits an amount proportionally to the ratios without losing or creating a single minor unit.
+ * Leftover minor units go to the shares with the largest remainders, earlier shares winning ties.
+ * @throws Error when a ratio is negative or all ratios are zero.
+ */
+export const allocate = (value: Money, ratios: DecimalInput[]): Money[] => {
+    const weights = ratios.map(decimal);
+    const scale = Math.max(0, ...weights.map((weight) => weight.scale));
+    const units = weights.map((weight) => weight.units * 10n ** BigInt(scale - weight.scale));
+
+    if (units.some((weight) => weight < 0n)) {
+        throw new Error('Allocation ratios must not be negative');
+    }
+
+    const total = units.reduce((sum, weight) => sum + weight, 0n);
+    if (total === 0n) {
+        throw new Error('Allocation ratios must not all be zero');
+    }
+
+    const amount = value.amount.units;
+    const sign = amount < 0n ? -1n : 1n;
+    const absolute = amount * sign;
+    const shares = units.map((weight) => (absolute * weight) / total);
+    const remainders = units.map((weight, index) => ({ index, remainder: (absolute * weight) % total }));
+    let leftover = absolute - shares.reduce((sum, share) => sum + share, 0n);
+
+    remainders.sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+    for (const { index } of remainders) {
+        if (leftover === 0n) {
+            break;
+        }
+        shares[index] = (shares[index] as bigint) + 1n;
+        leftover -= 1n;
+    }
+
+    return shares.map((share) => createMoney(Object.freeze({ units: share * sign, scale: value.amount.scale }), value.currency));
+};
+
+/**
+ * Formats the amount as currency through `formatNumber`, exactly and in the currency's minor units by default.
+ */
+export const formatMoney = (value: Money, locales?: Intl.LocalesArgument, options?: Intl.NumberFormatOptions): string =>
+    formatNumber(decimalToString(value.amount) as Intl.StringNumericLiteral, locales, { style: 'currency', currency: value.currency, ...options });
@@ -1,3 +1,6 @@
+import type { Result } from '../types.js';
+import { err, isDefined, ok } from './std.js';
+
 /**
  * Restricts a number to stay within the inclusive [min, max] range.
  */
@@ -34,7 +37,79 @@ export const toPercentage = (value: number, digits = 2): string => `${(value * 1
 
 /**
  * Formats a number using Intl.NumberFormat with the provided options.
+ * Bigints and numeric strings are formatted exactly, without a round trip through floating point.
  */
-export const formatNumber = (value: number, locales?: Intl.LocalesArgument, options?: Intl.NumberFormatOptions): string => {
+export const formatNumber = (
+    value: number | bigint | Intl.StringNumericLiteral,
+    locales?: Intl.LocalesArgument,
+    options?: Intl.NumberFormatOptions,
+): string => {
     return new Intl.NumberFormat(locales, options).format(value);
 };
+
+export type ByteFormatOptions = {
+    /**
+     * `si` uses powers of 1000 (kB, MB...), `iec` uses powers of 1024 (KiB, MiB...). Defaults to `si`.
+     */
+    standard?: 'si' | 'iec';
+    locales?: Intl.LocalesArgument;
+    /**
+     * Defaults to 1.
+     */
+    maximumFractionDigits?: number;
+};
+
+const BYTE_UNITS = {
+    si: { base: 1000, units: ['B', 'kB', 'MB', 'GB', 'TB', 'PB', 'EB', 'ZB', 'YB'] },
+    iec: { base: 1024, units: ['B', 'KiB', 'MiB', 'GiB', 'TiB', 'PiB', 'EiB', 'ZiB', 'YiB'] },
+};
+
+const BYTE_MULTIPLIERS = new Map<string, number>(
+    Object.values(BYTE_UNITS).flatMap(({ base, units }) => units.map((unit, index): [string, number] => [unit.toLowerCase(), base ** index])),
+);
+
+const BYTES_PATTERN = /^([+-]?(?:\d+(?:\.\d*)?|\.\d+))\s*([a-z]*)$/i;
+
+/**
+ * Renders a byte count with the largest unit that keeps the value at or above 1, e.g. `1.5 GB` or `512 KiB`.
+ * Numbers go through `formatNumber` without digit grouping (`1000 B`, not `1,000 B`), so `locales` only
+ * changes the decimal separator and output in locales using `.` parses back with `parseBytes`.
+ * @throws Error when bytes is NaN or infinite.
+ */
+export const formatBytes = (bytes: number, options?: ByteFormatOptions): string => {
+    if (!Number.isFinite(bytes)) {
+        throw new Error(`Cannot format ${bytes} bytes, expected a finite number`);
+    }
+
+    const { base, units } = BYTE_UNITS[options?.standard ?? 'si'];
+    const digits = options?.maximumFractionDigits ?? 1;
+    let index = 0;
+
+    while (index < units.length - 1 && Math.abs(bytes) >= base ** (index + 1)) {
+        index += 1;
+    }
+    // Values such as 999.96 kB round up to the next unit.
+    if (index < units.length - 1 && Math.abs(roundTo(bytes / base ** index, digits)) >= base) {
+        index += 1;
+    }
+
+    return `${formatNumber(bytes / base ** index, options?.locales, { maximumFractionDigits: digits, useGrouping: false })} ${units[index] as string}`;
+};
+
+/**
+ * Parses sizes such as `1.5 GB`, `512KiB` or `42` (bytes) into a whole number of bytes.
+ * Unit prefixes are case-insensitive (`KB` reads as `kB`), but the trailing `B` must be uppercase:
+ * a lowercase `b` denotes bits, so `Mb` is rejected rather than read as megabytes.
+ * @returns An error result when the value or the unit is not recognised.
+ */
+export const parseBytes = (value: string): Result<number> => {
+    const match = BYTES_PATTERN.exec(value.trim());
+    const unit = match?.[2] ?? '';
+    const multiplier = unit === '' || unit.endsWith('B') ? BYTE_MULTIPLIERS.get(unit.toLowerCase() || 'b') : undefined;
+
+    if (!isDefined(match) || !isDefined(multiplier)) {
+        return err(new Error(`Invalid byte size "${value}"`));
+    }
+
+    return ok(Math.round(Number(match[1]) * multiplier));
+};
@@ -1,8 +1,190 @@
+import { isDefined } from './std.js';
+
 /**
  * Produces a new object overriding the provided properties on top of the original shape.
  */
 export const clone = <T, P>(object: T, props: Partial<P>): T & P => ({ ...object, ...props }) as T & P;
 
+export type DeepCloneOptions = {
+    /**
+     * How to handle class instances: `preserve` copies their own properties onto a new object with the same prototype,
+     * `reject` throws. Defaults to `preserve`.
+     */
+    instances?: 'preserve' | 'reject';
+};
+
+type TypedArrayConstructor = new (buffer: ArrayBufferLike, byteOffset: number, length: number) => ArrayBufferView;
+
+const globalObj = globalThis as typeof globalThis & {
+    structuredClone?: <T>(value: T) => T;
+};
+
+const BUILT_IN_PROTOTYPES = new Set<unknown>([
+    Object.prototype,
+    Array.prototype,
+    Date.prototype,
+    RegExp.prototype,
+    Map.prototype,
+    Set.prototype,
+    ArrayBuffer.prototype,
+]);
+
+const typedArrayName = (value: ArrayBufferView): string => Object.prototype.toString.call(value).slice(8, -1);
+
+const BOXED_TYPES = [Number, String, Boolean, BigInt, Symbol];
+
+/**
+ * Returns the prototype a plain instance of the value's built-in type would have, or `Object.prototype` for ordinary objects.
+ * A different actual prototype means the value is a class instance, possibly of a subclass of the built-in.
+ */
+const intrinsicPrototypeOf = (value: object): unknown => {
+    if (ArrayBuffer.isView(value)) {
+        return value instanceof DataView
+            ? DataView.prototype
+            : (globalThis as Record<string, { prototype?: unknown } | undefined>)[typedArrayName(value)]?.prototype;
+    }
+    if (Array.isArray(value)) {
+        return Array.prototype;
+    }
+    const type = [Date, RegExp, Map, Set, ArrayBuffer, ...BOXED_TYPES].find((candidate) => value instanceof candidate);
+    return type?.prototype ?? Object.prototype;
+};
+
+/**
+ * Checks whether `structuredClone` would produce the same copy as `deepClone`: no functions, symbols, class instances,
+ * null-prototype objects or typed array subclasses such as Node's `Buffer`, whose prototypes it would drop.
+ */
+const isStructuredCloneSafe = (value: unknown, visited = new Set<object>()): boolean => {
+    if (typeof value === 'function' || typeof value === 'symbol') {
+        return false;
+    }
+    if (typeof value !== 'object' || value === null || visited.has(value)) {
+        return true;
+    }
+    visited.add(value);
+
+    const proto: unknown = Object.getPrototypeOf(value);
+    if (ArrayBuffer.isView(value)) {
+        return (
+            !(value instanceof DataView) &&
+            proto === (globalThis as Record<string, { prototype?: unknown } | undefined>)[typedArrayName(value)]?.prototype
+        );
+    }
+    if (!BUILT_IN_PROTOTYPES.has(proto) || Object.getOwnPropertySymbols(value).length > 0) {
+        return false;
+    }
+    if (value instanceof Map) {
+        return [...value].every(([key, entry]) => isStructuredCloneSafe(key, visited) && isStructuredCloneSafe(entry, visited));
+    }
+    if (value instanceof Set) {
+        return [...value].every((member) => isStructuredCloneSafe(member, visited));
+    }
+    return Object.values(value).every((entry) => isStructuredCloneSafe(entry, visited));
+};
+
+/**
+ * Copies a value and everything it references: plain objects, arrays, `Date`, `RegExp`, `Map`, `Set`, `ArrayBuffer`, typed arrays
+ * and boxed primitives. Cyclic and shared references are preserved in the copy, functions are kept by reference.
+ * Subclasses of built-ins count as class instances for the `instances` option.
+ * Uses `structuredClone` when available and the value only holds types it copies faithfully.
+ * @throws Error when `instances` is `reject` and a class instance is found.
+ */
+export const deepClone = <T>(value: T, options: DeepCloneOptions = {}): T => {
+    if (isDefined(globalObj.structuredClone) && isStructuredCloneSafe(value)) {
+        return globalObj.structuredClone(value);
+    }
+
+    const copies = new Map<object, unknown>();
+
+    const copy = (source: unknown): unknown => {
+        if (typeof source !== 'object' || source === null) {
+            return source;
+        }
+        if (copies.has(source)) {
+            return copies.get(source);
+        }
+
+        const proto: unknown = Object.getPrototypeOf(source);
+        const intrinsic = intrinsicPrototypeOf(source);
+        const isInstance = proto !== intrinsic && !(intrinsic === Object.prototype && proto === null);
+        if (isInstance && options.instances === 'reject') {
+            throw new Error(
+                `Cannot deep clone an instance of ${(source as { constructor?: { name?: string } }).constructor?.name ?? 'an unknown class'}`,
+            );
+        }
+
+        const target = createCopy(source, proto);
+        copies.set(source, target);
+
+        if (target instanceof Map) {
+            (source as Map<unknown, unknown>).forEach((entry, key) => target.set(copy(key), copy(entry)));
+        } else if (target instanceof Set) {
+            (source as Set<unknown>).forEach((member) => target.add(copy(member)));
+        } else if (Array.isArray(source) || (intrinsic === Object.prototype && !isInstance)) {
+            const keys = [
+                ...Object.keys(source),
+                ...Object.getOwnPropertySymbols(source).filter((symbol) => Object.prototype.propertyIsEnumerable.call(source, symbol)),
+            ];
+            keys.forEach((key) => {
+                (target as Record<PropertyKey, unknown>)[key] = copy((source as Record<PropertyKey, unknown>)[key]);
+            });
+        }
+
+        if (isInstance) {
+            // Class instances keep their prototype and every own property, including non-enumerable ones such as `Error#message`.
+            Object.setPrototypeOf(target, proto as object);
+            Reflect.ownKeys(source).forEach((key) => {
+                if (Object.prototype.hasOwnProperty.call(target, key)) {
+                    return;
+                }
+                const descriptor = Reflect.getOwnPropertyDescriptor(source, key)!;
+                Reflect.defineProperty(target, key, 'value' in descriptor ? { ...descriptor, value: copy(descriptor.value) } : descriptor);
+            });
+        }
+
+        return target;
+    };
+
+    /**
+     * Creates the copy of a built-in object with its internal state (time, pattern, bytes, boxed value), leaving entries and keys to `copy`.
+     */
+    const createCopy = (source: object, proto: unknown): object => {
+        if (source instanceof Date) {
+            return new Date(source.getTime());
+        }
+        if (source instanceof RegExp) {
+            return new RegExp(source.source, source.flags);
+        }
+        if (source instanceof ArrayBuffer) {
+            return source.slice(0);
+        }
+        if (ArrayBuffer.isView(source)) {
+            // Copying the underlying buffer keeps views that share it sharing it in the copy.
+            const buffer = copy(source.buffer) as ArrayBufferLike;
+            if (source instanceof DataView) {
+                return new DataView(buffer, source.byteOffset, source.byteLength);
+            }
+            const View = (globalThis as unknown as Record<string, TypedArrayConstructor>)[typedArrayName(source)]!;
+            return new View(buffer, source.byteOffset, (source as unknown as ArrayLike<unknown>).length);
+        }
+        if (source instanceof Map) {
+            return new Map();
+        }
+        if (source instanceof Set) {
+            return new Set();
+        }
+        if (BOXED_TYPES.some((type) => source instanceof type)) {
+            return Object((source as { valueOf: () => unknown }).valueOf()) as object;
+        }
+        if (Array.isArray(source)) {
+            return new Array<unknown>(source.length);
+        }
+        return Object.create(proto === null ? null : Object.prototype) as object;
+    };
+
+    return copy(value) as T;
+};
+
 /**
  * Checks if two objects have the same keys with strictly equal values.
  */
@@ -17,6 +199,160 @@ export const isShallowEqual = <T extends Record<PropertyKey, unknown>>(a: T, b:
     return keysA.every((key) => Object.prototype.hasOwnProperty.call(b, key) && a[key] === b[key]);
 };
 
+export type DeepEqualOptions = {
+    /**
+     * Object keys skipped at any depth, e.g. `['updatedAt']`.
+     */
+    ignoreKeys?: PropertyKey[];
+    /**
+     * Treats properties holding `undefined` as absent, so `{ a: undefined }` equals `{}`.
+     */
+    ignoreUndefined?: boolean;
+    /**
+     * Per-type comparators, used when both values are instances of the given class,
+     * e.g. `[[URL, (a: URL, b: URL) => a.href === b.href]]`. The first matching entry wins.
+     */
+    comparators?: TypeComparator[];
+    /**
+     * Called for every pair of values, at any depth and of any type, before the built-in rules and `comparators`.
+     * Return a boolean to decide, or undefined to fall back to the default comparison.
+     */
+    compare?: (a: unknown, b: unknown) => boolean | undefined;
+};
+
+/**
+ * Pairs a class with the function deciding whether two of its instances are equal.
+ */
+export type TypeComparator = [type: abstract new (...args: never[]) => unknown, compare: (a: never, b: never) => boolean];
+
+const sameValueZero = (a: unknown, b: unknown): boolean => a === b || (a !== a && b !== b);
+
+const ownKeys = (object: object, options: DeepEqualOptions): PropertyKey[] => {
+    const ignored = new Set(options.ignoreKeys);
+    const keys = [
+        ...Object.keys(object),
+        ...Object.getOwnPropertySymbols(object).filter((symbol) => Object.prototype.propertyIsEnumerable.call(object, symbol)),
+    ];
+    return keys.filter(
+        (key) => !ignored.has(key) && !(options.ignoreUndefined === true && (object as Record<PropertyKey, unknown>)[key] === undefined),
+    );
+};
+
+const bytesOf = (view: ArrayBufferView | ArrayBuffer): Uint8Array =>
+    view instanceof ArrayBuffer ? new Uint8Array(view) : new Uint8Array(view.buffer, view.byteOffset, view.byteLength);
+
+/**
+ * Compares values structurally: nested plain objects and arrays, `Date`, `RegExp`, `Map`, `Set`, typed arrays and buffers.
+ * Boxed primitives compare by value and errors by `name` and `message` as well as their own keys.
+ * `NaN` equals `NaN`, objects must share a prototype, and cyclic references are supported.
+ * Map keys are matched by identity, while Set members that are objects are matched structurally.
+ */
+export const isDeepEqual = (a: unknown, b: unknown, options: DeepEqualOptions = {}): boolean => {
+    // Pairs currently being compared, so a cycle counts as equal when both sides loop back to the same pair.
+    const inProgress = new Map<object, object>();
+
+    const equal = (left: unknown, right: unknown): boolean => {
+        const custom = options.compare?.(left, right);
+        if (typeof custom === 'boolean') {
+            return custom;
+        }
+        if (sameValueZero(left, right)) {
+            return true;
+        }
+        if (typeof left !== 'object' || typeof right !== 'object' || left === null || right === null) {
+            return false;
+        }
+        if (Object.getPrototypeOf(left) !== Object.getPrototypeOf(right)) {
+            return false;
+        }
+
+        const comparator = options.comparators?.find(([type]) => left instanceof type && right instanceof type);
+        if (isDefined(comparator)) {
+            return (comparator[1] as (a: object, b: object) => boolean)(left, right);
+        }
+
+        const pending = inProgress.get(left);
+        if (isDefined(pending)) {
+            return pending === right;
+        }
+
+        inProgress.set(left, right);
+        const result = equalObjects(left, right);
+        inProgress.delete(left);
+        return result;
+    };
+
+    const equalObjects = (left: object, right: object): boolean => {
+        if (left instanceof Date) {
+            return sameValueZero(left.getTime(), (right as Date).getTime());
+        }
+        if (left instanceof RegExp) {
+            return left.source === (right as RegExp).source && left.flags === (right as RegExp).flags;
+        }
+        if (left instanceof ArrayBuffer || left instanceof DataView) {
+            const bytesLeft = bytesOf(left);
+            const bytesRight = bytesOf(right as ArrayBuffer | DataView);
+            return bytesLeft.length === bytesRight.length && bytesLeft.every((byte, index) => byte === bytesRight[index]);
+        }
+        if (ArrayBuffer.isView(left)) {
+            const typedLeft = left as unknown as ArrayLike<unknown>;
+            const typedRight = right as unknown as ArrayLike<unknown>;
+            return (
+                typedLeft.length === typedRight.length &&
+                Array.prototype.every.call(typedLeft, (value, index) => sameValueZero(value, typedRight[index]))
+            );
+        }
+        if (left instanceof Map) {
+            const mapRight = right as Map<unknown, unknown>;
+            return left.size === mapRight.size && [...left].every(([key, value]) => mapRight.has(key) && equal(value, mapRight.get(key)));
+        }
+        if (left instanceof Set) {
+            return equalSets(left, right as Set<unknown>);
+        }
+        if (left instanceof Number || left instanceof String || left instanceof Boolean || left instanceof BigInt || left instanceof Symbol) {
+            return sameValueZero(left.valueOf(), (right as typeof left).valueOf());
+        }
+        if (left instanceof Error && (left.name !== (right as Error).name || left.message !== (right as Error).message)) {
+            return false;
+        }
+        if (Array.isArray(left)) {
+            const arrayRight = right as unknown[];
+            return left.length === arrayRight.length && Array.from(left).every((value, index) => equal(value, arrayRight[index]));
+        }
+
+        const keysLeft = ownKeys(left, options);
+        const keysRight = new Set(ownKeys(right, options));
+        return (
+            keysLeft.length === keysRight.size &&
+            keysLeft.every(
+                (key) => keysRight.has(key) && equal((left as Record<PropertyKey, unknown>)[key], (right as Record<PropertyKey, unknown>)[key]),
+            )
+        );
+    };
+
+    const equalSets = (left: Set<unknown>, right: Set<unknown>): boolean => {
+        if (left.size !== right.size) {
+            return false;
+        }
+
+        // Members found in both sets by identity match directly; the rest need a structural counterpart.
+        const unmatched = [...right].filter((value) => !left.has(value));
+        for (const value of left) {
+            if (right.has(value)) {
+                continue;
+            }
+            const index = unmatched.findIndex((candidate) => equal(value, candidate));
+            if (index === -1) {
+                return false;
+            }
+            unmatched.splice(index, 1);
+        }
+        return true;
+    };
+
+    return equal(a, b);
+};
+
 /**
  * Builds a new object including only the provided keys present on the source.
  */
@@ -0,0 +1,77 @@
+import type { Result } from '../types.js';
+import { err, fromTry, isDefined, ok } from './std.js';
+import { base64Decode, base64Encode } from './string.js';
+
+export type PageOptions = {
+    /**
+     * 1-based page number.
+     */
+    page: number;
+    pageSize: number;
+};
+
+export type Page<T> = {
+    items: T[];
+    page: number;
+    pageSize: number;
+    total: number;
+    pageCount: number;
+    hasNext: boolean;
+    hasPrevious: boolean;
+};
+
+/**
+ * Slices one page out of an array. Pages past the end are empty but keep the metadata.
+ * @throws Error when page or pageSize is not a positive integer.
+ */
+export const paginate = <T>(array: T[], { page, pageSize }: PageOptions): Page<T> => {
+    if (!Number.isInteger(page) || page < 1 || !Number.isInteger(pageSize) || pageSize < 1) {
+        throw new Error(`Invalid page ${page} of size ${pageSize}, both must be positive integers`);
+    }
+
+    const start = (page - 1) * pageSize;
+    const pageCount = Math.ceil(array.length / pageSize);
+
+    return {
+        items: array.slice(start, start + pageSize),
+        page,
+        pageSize,
+        total: array.length,
+        pageCount,
+        hasNext: page < pageCount,
+        hasPrevious: page > 1,
+    };
+};
+
+const CURSOR_PATTERN = /^[A-Za-z0-9_-]+$/;
+
+/**
+ * Encodes a JSON-serializable value, such as the sort key of the last item sent, into an opaque URL-safe cursor.
+ * @throws Error when the value has no JSON form, such as undefined, a function, a symbol, a bigint or a circular object.
+ */
+export const encodeCursor = (value: unknown): string => {
+    const json = fromTry(() => JSON.stringify(value) as string | undefined);
+    if (!json.ok || !isDefined(json.value)) {
+        throw new Error(`Cannot encode a cursor from a value of type ${typeof value} that is not JSON-serializable`);
+    }
+
+    return base64Encode(json.value).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+};
+
+/**
+ * Decodes a cursor produced by `encodeCursor`. Cursors come from clients, so pass a guard to check the decoded shape.
+ */
+export const decodeCursor = <T = unknown>(cursor: string, guard?: (value: unknown) => value is T): Result<T> => {
+    const invalid = err(new Error(`Invalid cursor "${cursor}"`));
+    if (!CURSOR_PATTERN.test(cursor)) {
+        return invalid;
+    }
+
+    const padded = cursor.replace(/-/g, '+').replace(/_/g, '/') + '='.repeat((4 - (cursor.length % 4)) % 4);
+    const decoded = fromTry(() => JSON.parse(base64Decode(padded)) as unknown);
+    if (!decoded.ok || (isDefined(guard) && !guard(decoded.value))) {
+        return invalid;
+    }
+
+    return ok(decoded.value as T);
+};
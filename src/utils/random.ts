@@ -0,0 +1,134 @@
+/**
+ * Source of uniformly distributed numbers in `[0, 1)`, with the same contract as `Math.random`.
+ */
+export type RandomGenerator = () => number;
+
+const UINT32_RANGE = 2 ** 32;
+
+/**
+ * 32-bit FNV-1a hash of the string's UTF-16 code units, finished with the MurmurHash3 mixer so similar keys spread evenly.
+ */
+const hashString = (value: string): number => {
+    let hash = 0x811c9dc5;
+    for (let index = 0; index < value.length; index += 1) {
+        hash ^= value.charCodeAt(index);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    hash = Math.imul(hash ^ (hash >>> 16), 0x85ebca6b);
+    hash = Math.imul(hash ^ (hash >>> 13), 0xc2b2ae35);
+    return (hash ^ (hash >>> 16)) >>> 0;
+};
+
+/**
+ * Creates a deterministic generator (mulberry32) so the same seed always yields the same sequence.
+ * @param seed Integer or string; strings are hashed to a 32-bit seed.
+ */
+export const createRandom = (seed: number | string): RandomGenerator => {
+    let state = typeof seed === 'string' ? hashString(seed) : seed >>> 0;
+
+    return () => {
+        state = (state + 0x6d2b79f5) >>> 0;
+        let value = state;
+        value = Math.imul(value ^ (value >>> 15), value | 1);
+        value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+        return ((value ^ (value >>> 14)) >>> 0) / UINT32_RANGE;
+    };
+};
+
+/**
+ * Returns a float in `[min, max)`.
+ */
+export const randomFloat = (min = 0, max = 1, random: RandomGenerator = Math.random): number => min + random() * (max - min);
+
+/**
+ * Returns an integer between `min` and `max`, both inclusive.
+ * @throws Error when the bounds are not integers or `min` is greater than `max`.
+ */
+export const randomInt = (min: number, max: number, random: RandomGenerator = Math.random): number => {
+    if (!Number.isInteger(min) || !Number.isInteger(max) || min > max) {
+        throw new Error(`Invalid integer range [${min}, ${max}]`);
+    }
+    return min + Math.floor(random() * (max - min + 1));
+};
+
+/**
+ * Returns true with the given probability.
+ */
+export const randomBool = (probability = 0.5, random: RandomGenerator = Math.random): boolean => random() < probability;
+
+/**
+ * Returns a random element, or undefined for an empty array.
+ */
+export const pickRandom = <T>(array: T[], random: RandomGenerator = Math.random): T | undefined => array[Math.floor(random() * array.length)];
+
+/**
+ * Returns a shuffled copy of the array using the Fisher–Yates algorithm.
+ */
+export const shuffle = <T>(array: T[], random: RandomGenerator = Math.random): T[] => sample(array, array.length, random);
+
+/**
+ * Picks `n` items without replacement, in random order. Asking for more items than available returns them all.
+ * @throws Error when `n` is negative or not an integer.
+ */
+export const sample = <T>(array: T[], n: number, random: RandomGenerator = Math.random): T[] => {
+    if (!Number.isInteger(n) || n < 0) {
+        throw new Error(`Sample size must be a non-negative integer, received ${n}`);
+    }
+
+    const result = [...array];
+    const size = Math.min(n, result.length);
+
+    // Partial Fisher–Yates: only the first `size` slots need to be settled.
+    for (let index = 0; index < size; index += 1) {
+        const swap = index + Math.floor(random() * (result.length - index));
+        [result[index], result[swap]] = [result[swap] as T, result[index] as T];
+    }
+
+    return result.slice(0, size);
+};
+
+/**
+ * Picks an item with a probability proportional to its weight.
+ * @throws Error when the lists differ in length, a weight is negative or not finite, or all weights are zero.
+ */
+export const weightedPick = <T>(items: T[], weights: number[], random: RandomGenerator = Math.random): T => {
+    if (items.length !== weights.length) {
+        throw new Error('weightedPick needs exactly one weight per item');
+    }
+    if (weights.some((weight) => !Number.isFinite(weight) || weight < 0)) {
+        throw new Error('weightedPick weights must be finite and non-negative');
+    }
+
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total <= 0) {
+        throw new Error('weightedPick needs at least one positive weight');
+    }
+
+    let threshold = random() * total;
+    let lastPositive = 0;
+    for (let index = 0; index < items.length; index += 1) {
+        const weight = weights[index] as number;
+        if (weight > 0) {
+            lastPositive = index;
+            if (threshold < weight) {
+                return items[index] as T;
+            }
+            threshold -= weight;
+        }
+    }
+
+    // Floating point drift can leave a sliver past the last weight.
+    return items[lastPositive] as T;
+};
+
+/**
+ * Hashes a key into one of `buckets` cohorts. The same key always lands in the same bucket, whatever the platform.
+ * @returns A bucket index in `[0, buckets)`.
+ * @throws Error when `buckets` is not a positive integer.
+ */
+export const bucket = (key: string, buckets: number): number => {
+    if (!Number.isInteger(buckets) || buckets < 1) {
+        throw new Error(`Bucket count must be a positive integer, received ${buckets}`);
+    }
+    return Math.floor((hashString(key) / UINT32_RANGE) * buckets);
+};
@@ -0,0 +1,426 @@
+import type { Optional, Result } from '../types.js';
+import { MILLISECOND_IN_DAY, formatDatePattern, fromDateParts, getDateParts, modifyDate, parseDatePattern, startOf } from './date.js';
+import type { DateHelperOptions, DateUnit } from './date.js';
+import { err, isDefined, ok } from './std.js';
+import { stripPrefix } from './string.js';
+
+export type RecurrenceFrequency = 'DAILY' | 'WEEKLY' | 'MONTHLY' | 'YEARLY';
+export type RecurrenceWeekday = 'SU' | 'MO' | 'TU' | 'WE' | 'TH' | 'FR' | 'SA';
+
+/**
+ * A BYDAY entry such as `TU`, `2TU` (second Tuesday) or `-1FR` (last Friday).
+ */
+export type RecurrenceDay = {
+    weekday: RecurrenceWeekday;
+    /**
+     * Nth occurrence of the weekday within the month or year, negative values count from the end.
+     * Only allowed for MONTHLY and YEARLY rules.
+     */
+    ordinal?: number;
+};
+
+/**
+ * The FREQ/INTERVAL/COUNT/UNTIL/BYDAY/BYMONTHDAY/BYMONTH/BYSETPOS/WKST subset of an RFC 5545 RRULE.
+ */
+export type RecurrenceRule = {
+    freq: RecurrenceFrequency;
+    interval?: number;
+    count?: number;
+    until?: Date;
+    byDay?: RecurrenceDay[];
+    byMonthDay?: number[];
+    /**
+     * One-based months (1 = January).
+     */
+    byMonth?: number[];
+    bySetPos?: number[];
+    /**
+     * First day of the week used to group WEEKLY rules, defaults to `MO` as in RFC 5545.
+     */
+    weekStart?: RecurrenceWeekday;
+};
+
+export type RecurrenceOptions = DateHelperOptions & {
+    /**
+     * Occurrences to leave out (EXDATE). They still count towards `count`.
+     */
+    exclude?: Date[];
+};
+
+/**
+ * Lazily iterable occurrences of a rule.
+ */
+export type Recurrence = Iterable<Date> & {
+    /**
+     * Returns the occurrences between both dates, inclusive.
+     */
+    between: (start: Date, end: Date) => Date[];
+};
+
+const WEEKDAYS: RecurrenceWeekday[] = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+const FREQUENCIES: RecurrenceFrequency[] = ['DAILY', 'WEEKLY', 'MONTHLY', 'YEARLY'];
+const FREQUENCY_UNITS: Record<RecurrenceFrequency, DateUnit> = { DAILY: 'day', WEEKLY: 'week', MONTHLY: 'month', YEARLY: 'year' };
+/**
+ * Periods in a row without any candidate before a rule is considered unsatisfiable (e.g. February 30th).
+ */
+const MAX_EMPTY_PERIODS = 10_000;
+
+const BY_DAY_PATTERN = /^([+-]?\d{1,2})?(SU|MO|TU|WE|TH|FR|SA)$/;
+const INTEGER_PATTERN = /^[+-]?\d+$/;
+const UNTIL_DATE_PATTERN = /^\d{8}$/;
+const UNTIL_UTC_PATTERN = /^\d{8}T\d{6}Z$/;
+const UNTIL_FLOATING_PATTERN = /^\d{8}T\d{6}$/;
+
+type DayFields = { year: number; month: number; day: number; weekday: number };
+
+const toDayNumber = (year: number, month: number, day: number): number => Math.floor(Date.UTC(year, month, day) / MILLISECOND_IN_DAY);
+
+const dayFields = (dayNumber: number): DayFields => {
+    const date = new Date(dayNumber * MILLISECOND_IN_DAY);
+    return { year: date.getUTCFullYear(), month: date.getUTCMonth(), day: date.getUTCDate(), weekday: date.getUTCDay() };
+};
+
+const daysInMonth = (year: number, month: number): number => new Date(Date.UTC(year, month + 1, 0)).getUTCDate();
+
+const daySpan = (from: number, length: number): number[] => Array.from({ length }, (_, index) => from + index);
+
+const isInRange = (value: number, limit: number): boolean => Number.isInteger(value) && value !== 0 && Math.abs(value) <= limit;
+
+const describeRuleProblem = (rule: RecurrenceRule): Optional<string> => {
+    if (!FREQUENCIES.includes(rule.freq)) {
+        return `unsupported FREQ "${String(rule.freq)}"`;
+    }
+    if (isDefined(rule.interval) && (!Number.isInteger(rule.interval) || rule.interval < 1)) {
+        return 'INTERVAL must be a positive integer';
+    }
+    if (isDefined(rule.count) && (!Number.isInteger(rule.count) || rule.count < 1)) {
+        return 'COUNT must be a positive integer';
+    }
+    if (isDefined(rule.count) && isDefined(rule.until)) {
+        return 'COUNT and UNTIL cannot be combined';
+    }
+    if (isDefined(rule.until) && Number.isNaN(rule.until.getTime())) {
+        return 'UNTIL must be a valid date';
+    }
+    if (rule.byDay?.some(({ weekday }) => !WEEKDAYS.includes(weekday)) === true) {
+        return 'BYDAY contains an unknown weekday';
+    }
+    if (rule.byDay?.some(({ ordinal }) => isDefined(ordinal) && !isInRange(ordinal, 53)) === true) {
+        return 'BYDAY ordinals must be between -53 and 53, excluding 0';
+    }
+    if (rule.freq !== 'MONTHLY' && rule.freq !== 'YEARLY' && rule.byDay?.some(({ ordinal }) => isDefined(ordinal)) === true) {
+        return 'BYDAY ordinals are only allowed in MONTHLY and YEARLY rules';
+    }
+    if (rule.byMonthDay?.some((day) => !isInRange(day, 31)) === true) {
+        return 'BYMONTHDAY values must be between -31 and 31, excluding 0';
+    }
+    if (rule.byMonth?.some((month) => !Number.isInteger(month) || month < 1 || month > 12) === true) {
+        return 'BYMONTH values must be between 1 and 12';
+    }
+    if (rule.bySetPos?.some((position) => !isInRange(position, 366)) === true) {
+        return 'BYSETPOS values must be between -366 and 366, excluding 0';
+    }
+    if (isDefined(rule.bySetPos) && !isDefined(rule.byDay) && !isDefined(rule.byMonthDay) && !isDefined(rule.byMonth)) {
+        return 'BYSETPOS requires another BYxxx rule part';
+    }
+    if (isDefined(rule.weekStart) && !WEEKDAYS.includes(rule.weekStart)) {
+        return 'WKST must be a weekday';
+    }
+    return undefined;
+};
+
+const parseIntegers = (raw: string): Optional<number[]> => {
+    const values = raw.split(',');
+    return values.every((value) => INTEGER_PATTERN.test(value)) ? values.map(Number) : undefined;
+};
+
+const parseUntil = (raw: string, options?: DateHelperOptions): Result<Date> => {
+    if (UNTIL_DATE_PATTERN.test(raw)) {
+        return parseDatePattern(raw, 'yyyyMMdd', options);
+    }
+    if (UNTIL_UTC_PATTERN.test(raw)) {
+        return parseDatePattern(raw, "yyyyMMdd'T'HHmmssXX");
+    }
+    if (UNTIL_FLOATING_PATTERN.test(raw)) {
+        return parseDatePattern(raw, "yyyyMMdd'T'HHmmss", options);
+    }
+    return err(new Error('UNTIL must be a date or date-time'));
+};
+
+/**
+ * Parses an RRULE string such as `FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1`, with or without the `RRULE:` prefix.
+ * @param options Floating UNTIL values (without `Z`) are read in local time, UTC or the requested time zone.
+ */
+export const parseRecurrenceRule = (value: string, options?: DateHelperOptions): Result<RecurrenceRule> => {
+    const invalid = (reason: string): Result<never> => err(new Error(`Invalid RRULE "${value}": ${reason}`));
+    const body = stripPrefix(value.trim(), 'RRULE:');
+    const seen = new Set<string>();
+    const rule: Partial<RecurrenceRule> = {};
+
+    if (body.length === 0) {
+        return invalid('rule is empty');
+    }
+
+    for (const part of body.split(';')) {
+        const [rawName, raw, ...rest] = part.split('=');
+        const name = rawName?.toUpperCase() ?? '';
+
+        if (!isDefined(raw) || raw.length === 0 || rest.length > 0) {
+            return invalid(`malformed part "${part}"`);
+        }
+        if (seen.has(name)) {
+            return invalid(`${name} is repeated`);
+        }
+        seen.add(name);
+
+        const upper = raw.toUpperCase();
+        switch (name) {
+            case 'FREQ':
+                if (!FREQUENCIES.includes(upper as RecurrenceFrequency)) {
+                    return invalid(`unsupported FREQ "${raw}"`);
+                }
+                rule.freq = upper as RecurrenceFrequency;
+                break;
+            case 'INTERVAL':
+            case 'COUNT': {
+                const [amount, ...extra] = parseIntegers(raw) ?? [];
+                if (!isDefined(amount) || extra.length > 0) {
+                    return invalid(`${name} must be an integer`);
+                }
+                rule[name === 'INTERVAL' ? 'interval' : 'count'] = amount;
+                break;
+            }
+            case 'UNTIL': {
+                const until = parseUntil(upper, options);
+                if (!until.ok) {
+                    return invalid('UNTIL must be a date or date-time');
+                }
+                rule.until = until.value;
+                break;
+            }
+            case 'BYDAY': {
+                const days: RecurrenceDay[] = [];
+                for (const entry of upper.split(',')) {
+                    const match = BY_DAY_PATTERN.exec(entry);
+                    if (!isDefined(match)) {
+                        return invalid(`BYDAY entry "${entry}" is not valid`);
+                    }
+                    const weekday = match[2] as RecurrenceWeekday;
+                    days.push(isDefined(match[1]) ? { weekday, ordinal: Number(match[1]) } : { weekday });
+                }
+                rule.byDay = days;
+                break;
+            }
+            case 'BYMONTHDAY':
+            case 'BYMONTH':
+            case 'BYSETPOS': {
+                const values = parseIntegers(raw);
+                if (!isDefined(values)) {
+                    return invalid(`${name} must be a list of integers`);
+                }
+                rule[name === 'BYMONTHDAY' ? 'byMonthDay' : name === 'BYMONTH' ? 'byMonth' : 'bySetPos'] = values;
+                break;
+            }
+            case 'WKST':
+                if (!WEEKDAYS.includes(upper as RecurrenceWeekday)) {
+                    return invalid(`WKST "${raw}" is not a weekday`);
+                }
+                rule.weekStart = upper as RecurrenceWeekday;
+                break;
+            default:
+                return invalid(`unsupported part "${name}"`);
+        }
+    }
+
+    if (!isDefined(rule.freq)) {
+        return invalid('FREQ is required');
+    }
+
+    const complete = { ...rule, freq: rule.freq };
+    const problem = describeRuleProblem(complete);
+    return isDefined(problem) ? invalid(problem) : ok(complete);
+};
+
+/**
+ * Serializes a rule to its RRULE representation (without the `RRULE:` prefix). UNTIL is written in UTC.
+ */
+export const formatRecurrenceRule = (rule: RecurrenceRule): string => {
+    const parts = [`FREQ=${rule.freq}`];
+
+    if (isDefined(rule.interval) && rule.interval !== 1) {
+        parts.push(`INTERVAL=${rule.interval}`);
+    }
+    if (isDefined(rule.count)) {
+        parts.push(`COUNT=${rule.count}`);
+    }
+    if (isDefined(rule.until)) {
+        parts.push(`UNTIL=${formatDatePattern(rule.until, "yyyyMMdd'T'HHmmss'Z'", { utc: true })}`);
+    }
+    if (isDefined(rule.byDay)) {
+        parts.push(`BYDAY=${rule.byDay.map(({ weekday, ordinal }) => `${ordinal ?? ''}${weekday}`).join(',')}`);
+    }
+    if (isDefined(rule.byMonthDay)) {
+        parts.push(`BYMONTHDAY=${rule.byMonthDay.join(',')}`);
+    }
+    if (isDefined(rule.byMonth)) {
+        parts.push(`BYMONTH=${rule.byMonth.join(',')}`);
+    }
+    if (isDefined(rule.bySetPos)) {
+        parts.push(`BYSETPOS=${rule.bySetPos.join(',')}`);
+    }
+    if (isDefined(rule.weekStart)) {
+        parts.push(`WKST=${rule.weekStart}`);
+    }
+
+    return parts.join(';');
+};
+
+/**
+ * Keeps the days of a month or year scope matching BYMONTHDAY and BYDAY.
+ * BYDAY ordinals are resolved against the whole scope.
+ */
+const expandScope = (scope: number[], byMonthDay: Optional<number[]>, byDay: Optional<RecurrenceDay[]>): number[] => {
+    let days = scope;
+
+    if (isDefined(byMonthDay)) {
+        days = days.filter((dayNumber) => {
+            const { year, month, day } = dayFields(dayNumber);
+            const length = daysInMonth(year, month);
+            return byMonthDay.some((value) => (value > 0 ? value === day : length + value + 1 === day));
+        });
+    }
+
+    if (isDefined(byDay)) {
+        const matching = new Set<number>();
+        for (const { weekday, ordinal } of byDay) {
+            const candidates = scope.filter((dayNumber) => WEEKDAYS[dayFields(dayNumber).weekday] === weekday);
+            const selected = isDefined(ordinal) ? [candidates.at(ordinal > 0 ? ordinal - 1 : ordinal)] : candidates;
+            selected.filter(isDefined).forEach((dayNumber) => matching.add(dayNumber));
+        }
+        days = days.filter((dayNumber) => matching.has(dayNumber));
+    }
+
+    return days;
+};
+
+const monthScope = (year: number, month: number): number[] => daySpan(toDayNumber(year, month, 1), daysInMonth(year, month));
+
+const filterByMonth = (days: number[], byMonth: Optional<number[]>): number[] =>
+    isDefined(byMonth) ? days.filter((dayNumber) => byMonth.includes(dayFields(dayNumber).month + 1)) : days;
+
+const applySetPositions = (days: number[], bySetPos: Optional<number[]>): number[] => {
+    if (!isDefined(bySetPos)) {
+        return days;
+    }
+
+    const selected = bySetPos.map((position) => days.at(position > 0 ? position - 1 : position)).filter(isDefined);
+    return Array.from(new Set(selected)).sort((a, b) => a - b);
+};
+
+/**
+ * Lists the candidate days of the period starting at `periodStart`, before BYSETPOS is applied.
+ */
+const periodDays = (rule: RecurrenceRule, periodStart: DayFields, start: DayFields): number[] => {
+    const { byDay, byMonth } = rule;
+    const usesDefaults = !isDefined(byDay) && !isDefined(rule.byMonthDay);
+    const byMonthDay = usesDefaults && (rule.freq === 'MONTHLY' || rule.freq === 'YEARLY') ? [start.day] : rule.byMonthDay;
+    const anchor = toDayNumber(periodStart.year, periodStart.month, periodStart.day);
+
+    switch (rule.freq) {
+        case 'DAILY':
+            return expandScope(filterByMonth([anchor], byMonth), byMonthDay, byDay);
+        case 'WEEKLY':
+            return expandScope(filterByMonth(daySpan(anchor, 7), byMonth), byMonthDay, byDay ?? [{ weekday: WEEKDAYS[start.weekday]! }]);
+        case 'MONTHLY':
+            if (isDefined(byMonth) && !byMonth.includes(periodStart.month + 1)) {
+                return [];
+            }
+            return expandScope(monthScope(periodStart.year, periodStart.month), byMonthDay, byDay);
+        case 'YEARLY': {
+            const months = byMonth ?? (usesDefaults ? [start.month + 1] : undefined);
+            if (isDefined(months)) {
+                return [...months].sort((a, b) => a - b).flatMap((month) => expandScope(monthScope(periodStart.year, month - 1), byMonthDay, byDay));
+            }
+            const firstDay = toDayNumber(periodStart.year, 0, 1);
+            return expandScope(daySpan(firstDay, toDayNumber(periodStart.year + 1, 0, 1) - firstDay), byMonthDay, byDay);
+        }
+        default:
+            return [];
+    }
+};
+
+const generateOccurrences = function* (rule: RecurrenceRule, start: Date, options?: RecurrenceOptions): Generator<Date> {
+    const unit = FREQUENCY_UNITS[rule.freq];
+    const interval = rule.interval ?? 1;
+    const weekStartsOn = WEEKDAYS.indexOf(rule.weekStart ?? 'MO');
+    const startParts = getDateParts(start, options);
+    const firstPeriod = startOf(start, unit, { ...options, weekStartsOn });
+    const excluded = new Set((options?.exclude ?? []).map((date) => date.getTime()));
+    let emitted = 0;
+    let emptyPeriods = 0;
+
+    for (let period = 0; emptyPeriods < MAX_EMPTY_PERIODS; period += 1) {
+        const periodStart = getDateParts(modifyDate(period * interval, unit, firstPeriod, options), options);
+        const days = applySetPositions(periodDays(rule, periodStart, startParts), rule.bySetPos);
+        emptyPeriods = days.length === 0 ? emptyPeriods + 1 : 0;
+
+        for (const dayNumber of days) {
+            const { year, month, day } = dayFields(dayNumber);
+            const occurrence = fromDateParts(
+                {
+                    year,
+                    month,
+                    day,
+                    hour: startParts.hour,
+                    minute: startParts.minute,
+                    second: startParts.second,
+                    millisecond: startParts.millisecond,
+                },
+                options,
+            );
+
+            if (occurrence < start) {
+                continue;
+            }
+            if (isDefined(rule.until) && occurrence > rule.until) {
+                return;
+            }
+
+            emitted += 1;
+            if (!excluded.has(occurrence.getTime())) {
+                yield occurrence;
+            }
+            if (isDefined(rule.count) && emitted >= rule.count) {
+                return;
+            }
+        }
+    }
+};
+
+/**
+ * Creates the occurrences of a rule starting at `start` (DTSTART), which also provides the time of day.
+ * Calendar fields are evaluated in local time, UTC or the requested time zone.
+ * @throws Error when the rule is not valid.
+ */
+export const createRecurrence = (rule: RecurrenceRule, start: Date, options?: RecurrenceOptions): Recurrence => {
+    const problem = describeRuleProblem(rule);
+    if (isDefined(problem)) {
+        throw new Error(`Invalid recurrence rule: ${problem}`);
+    }
+
+    return {
+        [Symbol.iterator]: () => generateOccurrences(rule, start, options),
+        between: (from, to) => {
+            const result: Date[] = [];
+            for (const occurrence of generateOccurrences(rule, start, options)) {
+                if (occurrence > to) {
+                    break;
+                }
+                if (occurrence >= from) {
+                    result.push(occurrence);
+                }
+            }
+            return result;
+        },
+    };
+};
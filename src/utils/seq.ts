@@ -0,0 +1,397 @@
+import type { MaybePromise } from '../types.js';
+import { groupBy } from './array.js';
+import { isDefined, noop } from './std.js';
+
+/**
+ * Lazy pipeline over an iterable. Steps run one item at a time when the sequence is iterated,
+ * and a sequence can be iterated again when its source can.
+ */
+export type Seq<T> = Iterable<T> & {
+    map: <U>(fn: (value: T, index: number) => U) => Seq<U>;
+    filter: {
+        <S extends T>(predicate: (value: T, index: number) => value is S): Seq<S>;
+        (predicate: (value: T, index: number) => boolean): Seq<T>;
+    };
+    flatMap: <U>(fn: (value: T, index: number) => Iterable<U>) => Seq<U>;
+    /**
+     * Stops after `count` items without pulling any further item from the source.
+     */
+    take: (count: number) => Seq<T>;
+    skip: (count: number) => Seq<T>;
+    /**
+     * Same as `chunk` from the array helpers.
+     * @throws Error when size is not greater than zero.
+     */
+    chunk: (size: number) => Seq<T[]>;
+    /**
+     * Pairs items by position, stopping with the shorter side like `zip` from the array helpers.
+     */
+    zip: <U>(other: Iterable<U>) => Seq<[T, U]>;
+    /**
+     * Drops repeated items, keeping the first occurrence like `unique` from the array helpers.
+     */
+    uniq: () => Seq<T>;
+    /**
+     * Consumes the sequence and groups items like `groupBy` from the array helpers.
+     */
+    groupBy: <K extends PropertyKey>(keyFn: (value: T) => K) => Record<K, T[]>;
+    reduce: <U>(fn: (accumulator: U, value: T, index: number) => U, initial: U) => U;
+    toArray: () => T[];
+    toAsync: () => AsyncSeq<T>;
+};
+
+/**
+ * Lazy pipeline over an async iterable, such as a paginated API stream. Callbacks may return promises.
+ */
+export type AsyncSeq<T> = AsyncIterable<T> & {
+    map: <U>(fn: (value: T, index: number) => MaybePromise<U>) => AsyncSeq<U>;
+    /**
+     * Maps with up to `concurrency` callbacks in flight, yielding results in source order.
+     * @throws Error when concurrency is not a positive integer.
+     */
+    mapConcurrent: <U>(fn: (value: T, index: number) => Promise<U>, concurrency: number) => AsyncSeq<U>;
+    filter: {
+        <S extends T>(predicate: (value: T, index: number) => value is S): AsyncSeq<S>;
+        (predicate: (value: T, index: number) => MaybePromise<boolean>): AsyncSeq<T>;
+    };
+    flatMap: <U>(fn: (value: T, index: number) => MaybePromise<Iterable<U> | AsyncIterable<U>>) => AsyncSeq<U>;
+    /**
+     * Stops after `count` items without pulling any further item from the source.
+     */
+    take: (count: number) => AsyncSeq<T>;
+    skip: (count: number) => AsyncSeq<T>;
+    /**
+     * @throws Error when size is not greater than zero.
+     */
+    chunk: (size: number) => AsyncSeq<T[]>;
+    zip: <U>(other: Iterable<U> | AsyncIterable<U>) => AsyncSeq<[T, U]>;
+    uniq: () => AsyncSeq<T>;
+    groupBy: <K extends PropertyKey>(keyFn: (value: T) => K) => Promise<Record<K, T[]>>;
+    reduce: <U>(fn: (accumulator: U, value: T, index: number) => MaybePromise<U>, initial: U) => Promise<U>;
+    toArray: () => Promise<T[]>;
+};
+
+const assertChunkSize = (size: number): void => {
+    if (size <= 0) {
+        throw new Error('chunk size must be greater than 0');
+    }
+};
+
+const toAsyncIterable = <T>(source: Iterable<T> | AsyncIterable<T>): AsyncIterable<T> => {
+    if (Symbol.asyncIterator in source) {
+        return source;
+    }
+    return {
+        [Symbol.asyncIterator]: () => {
+            const iterator = source[Symbol.iterator]();
+            return {
+                next: () => Promise.resolve(iterator.next()),
+                return: (value?: unknown) => Promise.resolve(iterator.return?.(value) ?? { done: true, value: undefined }),
+            };
+        },
+    };
+};
+
+const createSeq = <T>(iterate: () => Iterator<T>): Seq<T> => {
+    const source: Iterable<T> = { [Symbol.iterator]: iterate };
+    const derive = <U>(generate: () => Generator<U>): Seq<U> => createSeq(generate);
+
+    return {
+        [Symbol.iterator]: iterate,
+        map: (fn) =>
+            derive(function* () {
+                let index = 0;
+                for (const value of source) {
+                    yield fn(value, index++);
+                }
+            }),
+        filter: (predicate: (value: T, index: number) => boolean) =>
+            derive(function* () {
+                let index = 0;
+                for (const value of source) {
+                    if (predicate(value, index++)) {
+                        yield value;
+                    }
+                }
+            }),
+        flatMap: (fn) =>
+            derive(function* () {
+                let index = 0;
+                for (const value of source) {
+                    yield* fn(value, index++);
+                }
+            }),
+        take: (count) =>
+            derive(function* () {
+                if (count <= 0) {
+                    return;
+                }
+                let taken = 0;
+                for (const value of source) {
+                    yield value;
+                    if (++taken >= count) {
+                        return;
+                    }
+                }
+            }),
+        skip: (count) =>
+            derive(function* () {
+                let skipped = 0;
+                for (const value of source) {
+                    if (skipped < count) {
+                        skipped += 1;
+                    } else {
+                        yield value;
+                    }
+                }
+            }),
+        chunk: (size) => {
+            assertChunkSize(size);
+            return derive(function* () {
+                let current: T[] = [];
+                for (const value of source) {
+                    current.push(value);
+                    if (current.length >= size) {
+                        yield current;
+                        current = [];
+                    }
+                }
+                if (current.length > 0) {
+                    yield current;
+                }
+            });
+        },
+        zip: <U>(other: Iterable<U>) =>
+            derive(function* (): Generator<[T, U]> {
+                const left = iterate();
+                const right = other[Symbol.iterator]();
+                try {
+                    while (true) {
+                        const a = left.next();
+                        if (a.done === true) {
+                            return;
+                        }
+                        const b = right.next();
+                        if (b.done === true) {
+                            return;
+                        }
+                        yield [a.value, b.value];
+                    }
+                } finally {
+                    left.return?.();
+                    right.return?.();
+                }
+            }),
+        uniq: () =>
+            derive(function* () {
+                const seen = new Set<T>();
+                for (const value of source) {
+                    if (!seen.has(value)) {
+                        seen.add(value);
+                        yield value;
+                    }
+                }
+            }),
+        groupBy: (keyFn) => groupBy([...source], keyFn),
+        reduce: (fn, initial) => {
+            let accumulator = initial;
+            let index = 0;
+            for (const value of source) {
+                accumulator = fn(accumulator, value, index++);
+            }
+            return accumulator;
+        },
+        toArray: () => [...source],
+        toAsync: () => asyncSeq(source),
+    } as Seq<T>;
+};
+
+const createAsyncSeq = <T>(iterate: () => AsyncIterator<T>): AsyncSeq<T> => {
+    const source: AsyncIterable<T> = { [Symbol.asyncIterator]: iterate };
+    const derive = <U>(generate: () => AsyncGenerator<U>): AsyncSeq<U> => createAsyncSeq(generate);
+
+    const toArray = async (): Promise<T[]> => {
+        const result: T[] = [];
+        for await (const value of source) {
+            result.push(value);
+        }
+        return result;
+    };
+
+    return {
+        [Symbol.asyncIterator]: iterate,
+        map: (fn) =>
+            derive(async function* () {
+                let index = 0;
+                for await (const value of source) {
+                    yield await fn(value, index++);
+                }
+            }),
+        mapConcurrent: <U>(fn: (value: T, index: number) => Promise<U>, concurrency: number) => {
+            if (!Number.isInteger(concurrency) || concurrency < 1) {
+                throw new Error('concurrency must be a positive integer');
+            }
+            return derive(async function* () {
+                const iterator = iterate();
+                const pending: Array<Promise<U>> = [];
+                let index = 0;
+                let exhausted = false;
+
+                try {
+                    while (true) {
+                        while (!exhausted && pending.length < concurrency) {
+                            const next = await iterator.next();
+                            if (next.done === true) {
+                                exhausted = true;
+                            } else {
+                                const result = fn(next.value, index++);
+                                // Failures surface when the result is awaited in order; this only silences early rejections.
+                                void result.catch(noop);
+                                pending.push(result);
+                            }
+                        }
+
+                        const head = pending.shift();
+                        if (!isDefined(head)) {
+                            return;
+                        }
+                        yield await head;
+                    }
+                } finally {
+                    if (!exhausted) {
+                        await iterator.return?.();
+                    }
+                }
+            });
+        },
+        filter: (predicate: (value: T, index: number) => MaybePromise<boolean>) =>
+            derive(async function* () {
+                let index = 0;
+                for await (const value of source) {
+                    if (await predicate(value, index++)) {
+                        yield value;
+                    }
+                }
+            }),
+        flatMap: (fn) =>
+            derive(async function* () {
+                let index = 0;
+                for await (const value of source) {
+                    yield* toAsyncIterable(await fn(value, index++));
+                }
+            }),
+        take: (count) =>
+            derive(async function* () {
+                if (count <= 0) {
+                    return;
+                }
+                let taken = 0;
+                for await (const value of source) {
+                    yield value;
+                    if (++taken >= count) {
+                        return;
+                    }
+                }
+            }),
+        skip: (count) =>
+            derive(async function* () {
+                let skipped = 0;
+                for await (const value of source) {
+                    if (skipped < count) {
+                        skipped += 1;
+                    } else {
+                        yield value;
+                    }
+                }
+            }),
+        chunk: (size) => {
+            assertChunkSize(size);
+            return derive(async function* () {
+                let current: T[] = [];
+                for await (const value of source) {
+                    current.push(value);
+                    if (current.length >= size) {
+                        yield current;
+                        current = [];
+                    }
+                }
+                if (current.length > 0) {
+                    yield current;
+                }
+            });
+        },
+        zip: <U>(other: Iterable<U> | AsyncIterable<U>) =>
+            derive(async function* (): AsyncGenerator<[T, U]> {
+                const left = iterate();
+                const right = toAsyncIterable(other)[Symbol.asyncIterator]();
+                try {
+                    while (true) {
+                        const a = await left.next();
+                        if (a.done === true) {
+                            return;
+                        }
+                        const b = await right.next();
+                        if (b.done === true) {
+                            return;
+                        }
+                        yield [a.value, b.value];
+                    }
+                } finally {
+                    await left.return?.();
+                    await right.return?.();
+                }
+            }),
+        uniq: () =>
+            derive(async function* () {
+                const seen = new Set<T>();
+                for await (const value of source) {
+                    if (!seen.has(value)) {
+                        seen.add(value);
+                        yield value;
+                    }
+                }
+            }),
+        groupBy: async (keyFn) => groupBy(await toArray(), keyFn),
+        reduce: async (fn, initial) => {
+            let accumulator = initial;
+            let index = 0;
+            for await (const value of source) {
+                accumulator = await fn(accumulator, value, index++);
+            }
+            return accumulator;
+        },
+        toArray,
+    } as AsyncSeq<T>;
+};
+
+/**
+ * Wraps an iterable in a lazy pipeline.
+ */
+export const seq = <T>(source: Iterable<T>): Seq<T> => createSeq(() => source[Symbol.iterator]());
+
+/**
+ * Wraps a sync or async iterable in a lazy async pipeline.
+ */
+export const asyncSeq = <T>(source: Iterable<T> | AsyncIterable<T>): AsyncSeq<T> => {
+    const iterable = toAsyncIterable(source);
+    return createAsyncSeq(() => iterable[Symbol.asyncIterator]());
+};
+
+/**
+ * Lazy counterpart of `range`: numbers from start (inclusive) to end (exclusive), endless when `end` is omitted.
+ * @throws Error when step is zero.
+ */
+export const seqRange = (start: number, end = Infinity, step = 1): Seq<number> => {
+    if (step === 0) {
+        throw new Error('range step must not be zero');
+    }
+
+    const ascending = end >= start;
+    const normalizedStep = ascending ? Math.abs(step) : -Math.abs(step);
+
+    return createSeq(function* () {
+        for (let value = start; ascending ? value < end : value > end; value += normalizedStep) {
+            yield value;
+        }
+    });
+};
@@ -0,0 +1,202 @@
+import type { Comparator, Transformer } from '../types.js';
+import { by } from './comparator.js';
+import { identity } from './std.js';
+
+/**
+ * Orders a sorted array by a derived key, letting searches take a key (e.g. a timestamp) instead of a whole item.
+ */
+export type KeySelector<T, K> = { key: Transformer<T, K> };
+
+/**
+ * How a sorted array is ordered: a comparator over items, or a key selector compared like `by(key)`.
+ * Defaults to the natural ascending order of the items.
+ */
+export type SortOrder<T, K = unknown> = Comparator<T> | KeySelector<T, K>;
+
+type SortedSearch = {
+    <T>(array: T[], value: T, order?: Comparator<T>): number;
+    <T, K>(array: T[], key: K, order: KeySelector<T, K>): number;
+};
+
+type SortedRemove = {
+    <T>(array: T[], value: T, order?: Comparator<T>): T[];
+    <T, K>(array: T[], key: K, order: KeySelector<T, K>): T[];
+};
+
+type SortedRange = {
+    <T>(array: T[], low: T, high: T, order?: Comparator<T>): T[];
+    <T, K>(array: T[], low: K, high: K, order: KeySelector<T, K>): T[];
+};
+
+/**
+ * Tells where an item lies relative to the searched value: negative before, zero equal, positive after.
+ */
+type Probe<T> = (item: T) => number;
+
+const ascending = by<unknown, unknown>(identity);
+
+const isKeySelector = <T, K>(order: SortOrder<T, K> | undefined): order is KeySelector<T, K> => typeof order === 'object';
+
+const toComparator = <T, K>(order: SortOrder<T, K> | undefined): Comparator<T> => {
+    if (isKeySelector(order)) {
+        return (a, b) => ascending(order.key(a), order.key(b));
+    }
+    return order ?? ascending;
+};
+
+const toProbe = <T, K>(needle: T | K, order: SortOrder<T, K> | undefined): Probe<T> => {
+    if (isKeySelector(order)) {
+        return (item) => ascending(order.key(item), needle);
+    }
+    const comparator = order ?? ascending;
+    return (item) => comparator(item, needle as T);
+};
+
+const lowerBound = <T>(array: T[], probe: Probe<T>): number => {
+    let low = 0;
+    let high = array.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (probe(array[middle] as T) < 0) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+const upperBound = <T>(array: T[], probe: Probe<T>): number => {
+    let low = 0;
+    let high = array.length;
+    while (low < high) {
+        const middle = (low + high) >>> 1;
+        if (probe(array[middle] as T) <= 0) {
+            low = middle + 1;
+        } else {
+            high = middle;
+        }
+    }
+    return low;
+};
+
+/**
+ * Returns the first index where the value could be inserted without breaking the order, i.e. before any equal items.
+ */
+export const sortedIndex = (<T, K>(array: T[], value: T | K, order?: SortOrder<T, K>): number =>
+    lowerBound(array, toProbe(value, order))) as SortedSearch;
+
+/**
+ * Returns the last index where the value could be inserted without breaking the order, i.e. after any equal items.
+ */
+export const sortedLastIndex = (<T, K>(array: T[], value: T | K, order?: SortOrder<T, K>): number =>
+    upperBound(array, toProbe(value, order))) as SortedSearch;
+
+/**
+ * Finds a value in a sorted array in logarithmic time.
+ * @returns The index of the first equal item, or -1 when there is none.
+ */
+export const binarySearch = (<T, K>(array: T[], value: T | K, order?: SortOrder<T, K>): number => {
+    const probe = toProbe(value, order);
+    const index = lowerBound(array, probe);
+    return index < array.length && probe(array[index] as T) === 0 ? index : -1;
+}) as SortedSearch;
+
+/**
+ * Returns a copy of the sorted array with the item inserted after any equal items.
+ */
+export const insertSorted = <T, K = unknown>(array: T[], item: T, order?: SortOrder<T, K>): T[] => {
+    const index = upperBound(array, isKeySelector(order) ? toProbe(order.key(item), order) : toProbe(item, order));
+    return [...array.slice(0, index), item, ...array.slice(index)];
+};
+
+/**
+ * Returns a copy of the sorted array without the first item equal to the value.
+ */
+export const removeSorted = (<T, K>(array: T[], value: T | K, order?: SortOrder<T, K>): T[] => {
+    const probe = toProbe(value, order);
+    const index = lowerBound(array, probe);
+    if (index >= array.length || probe(array[index] as T) !== 0) {
+        return [...array];
+    }
+    return [...array.slice(0, index), ...array.slice(index + 1)];
+}) as SortedRemove;
+
+/**
+ * Returns the items between `low` and `high`, both inclusive.
+ */
+export const between = (<T, K>(array: T[], low: T | K, high: T | K, order?: SortOrder<T, K>): T[] =>
+    array.slice(lowerBound(array, toProbe(low, order)), upperBound(array, toProbe(high, order)))) as SortedRange;
+
+/**
+ * Merges already sorted arrays into one sorted array with a k-way merge.
+ * The merge is stable: equal items keep the order of the arrays they come from.
+ */
+export const mergeSorted = <T, K = unknown>(arrays: T[][], order?: SortOrder<T, K>): T[] => {
+    const comparator = toComparator(order);
+    // Min-heap of [array index, position] cursors, ties broken by array index.
+    const heap: Array<[number, number]> = [];
+    const before = (a: [number, number], b: [number, number]): boolean => {
+        const result = comparator(arrays[a[0]]![a[1]] as T, arrays[b[0]]![b[1]] as T);
+        return result < 0 || (result === 0 && a[0] < b[0]);
+    };
+    const swap = (i: number, j: number): void => {
+        [heap[i], heap[j]] = [heap[j]!, heap[i]!];
+    };
+    const siftUp = (index: number): void => {
+        let child = index;
+        while (child > 0) {
+            const parent = (child - 1) >>> 1;
+            if (!before(heap[child]!, heap[parent]!)) {
+                return;
+            }
+            swap(child, parent);
+            child = parent;
+        }
+    };
+    const siftDown = (index: number): void => {
+        let parent = index;
+        while (true) {
+            const left = parent * 2 + 1;
+            const right = left + 1;
+            let smallest = parent;
+            if (left < heap.length && before(heap[left]!, heap[smallest]!)) {
+                smallest = left;
+            }
+            if (right < heap.length && before(heap[right]!, heap[smallest]!)) {
+                smallest = right;
+            }
+            if (smallest === parent) {
+                return;
+            }
+            swap(parent, smallest);
+            parent = smallest;
+        }
+    };
+
+    arrays.forEach((array, index) => {
+        if (array.length > 0) {
+            heap.push([index, 0]);
+            siftUp(heap.length - 1);
+        }
+    });
+
+    const result: T[] = [];
+    while (heap.length > 0) {
+        const [source, position] = heap[0]!;
+        result.push(arrays[source]![position] as T);
+
+        if (position + 1 < arrays[source]!.length) {
+            heap[0] = [source, position + 1];
+        } else {
+            const last = heap.pop()!;
+            if (heap.length === 0) {
+                break;
+            }
+            heap[0] = last;
+        }
+        siftDown(0);
+    }
+
+    return result;
+};
@@ -0,0 +1,413 @@
+import { mean } from './number.js';
+import { isDefined } from './std.js';
+
+/**
+ * How `quantile` picks a value when the requested rank falls between two samples.
+ * Mirrors the methods offered by NumPy: `linear` interpolates, the others choose one of the neighbours or their midpoint.
+ */
+export type QuantileInterpolation = 'linear' | 'lower' | 'higher' | 'nearest' | 'midpoint';
+
+export type QuantileOptions = {
+    /**
+     * Defaults to `linear`.
+     */
+    interpolation?: QuantileInterpolation;
+};
+
+export type VarianceOptions = {
+    /**
+     * Divides by `n - 1` (Bessel's correction) instead of `n`, for samples of a larger population.
+     */
+    sample?: boolean;
+};
+
+export type HistogramOptions = {
+    /**
+     * Number of equal-width bins, or the explicit ascending bin edges. Defaults to 10 bins.
+     */
+    bins?: number | number[];
+    /**
+     * Lower and upper bounds for equal-width bins, defaults to the extent of the values. Values outside are ignored.
+     */
+    range?: [number, number];
+};
+
+/**
+ * A histogram bin covering `[start, end)`, the last bin also including its `end`.
+ */
+export type HistogramBin = {
+    start: number;
+    end: number;
+    count: number;
+};
+
+/**
+ * Serializable state of a `StatsAccumulator`, suitable for sending between workers.
+ */
+export type StatsAccumulatorState = {
+    count: number;
+    /**
+     * Running total kept apart from the mean, so integer sums stay exact.
+     */
+    sum: number;
+    mean: number;
+    /**
+     * Sum of squared distances from the mean.
+     */
+    m2: number;
+    min: number;
+    max: number;
+};
+
+/**
+ * Streaming statistics fed one value at a time in constant memory.
+ */
+export type StatsAccumulator = {
+    add: (value: number) => void;
+    /**
+     * Folds another accumulator, or its state, into this one.
+     */
+    merge: (other: StatsAccumulator | StatsAccumulatorState) => void;
+    count: () => number;
+    sum: () => number;
+    /**
+     * @throws Error when no value was added.
+     */
+    mean: () => number;
+    /**
+     * @throws Error when no value was added, or fewer than two for a sample variance.
+     */
+    variance: (options?: VarianceOptions) => number;
+    /**
+     * @throws Error when no value was added, or fewer than two for a sample standard deviation.
+     */
+    stdDev: (options?: VarianceOptions) => number;
+    /**
+     * @throws Error when no value was added.
+     */
+    min: () => number;
+    /**
+     * @throws Error when no value was added.
+     */
+    max: () => number;
+    state: () => StatsAccumulatorState;
+};
+
+const assertNotEmpty = (values: number[], statistic: string): void => {
+    if (values.length === 0) {
+        throw new Error(`Cannot compute ${statistic} of an empty array`);
+    }
+};
+
+const sortAscending = (values: number[]): number[] => [...values].sort((a, b) => a - b);
+
+const squaredDeviations = (values: number[]): number => {
+    const average = mean(values);
+    return values.reduce((total, value) => total + (value - average) ** 2, 0);
+};
+
+const varianceDivisor = (count: number, options: VarianceOptions | undefined, statistic: string): number => {
+    if (count === 0) {
+        throw new Error(`Cannot compute ${statistic} of an empty array`);
+    }
+    if (options?.sample === true) {
+        if (count < 2) {
+            throw new Error(`Cannot compute sample ${statistic} of fewer than two values`);
+        }
+        return count - 1;
+    }
+    return count;
+};
+
+const interpolate = (sorted: number[], position: number, interpolation: QuantileInterpolation): number => {
+    const lowerIndex = Math.floor(position);
+    const upperIndex = Math.ceil(position);
+    const lower = sorted[lowerIndex] as number;
+    const upper = sorted[upperIndex] as number;
+    const fraction = position - lowerIndex;
+
+    switch (interpolation) {
+        case 'linear':
+            return lower + (upper - lower) * fraction;
+        case 'lower':
+            return lower;
+        case 'higher':
+            return upper;
+        case 'nearest':
+            // Ties go to the even index, matching NumPy.
+            if (fraction === 0.5) {
+                return lowerIndex % 2 === 0 ? lower : upper;
+            }
+            return fraction < 0.5 ? lower : upper;
+        case 'midpoint':
+            return (lower + upper) / 2;
+    }
+};
+
+/**
+ * Returns the middle value, averaging the two middle values for even-length lists.
+ * @throws Error when the list is empty.
+ */
+export const median = (values: number[]): number => {
+    assertNotEmpty(values, 'median');
+    return interpolate(sortAscending(values), (values.length - 1) / 2, 'midpoint');
+};
+
+/**
+ * Returns the most frequent values in ascending order; several values are returned when they tie.
+ * @throws Error when the list is empty.
+ */
+export const mode = (values: number[]): number[] => {
+    assertNotEmpty(values, 'mode');
+
+    const counts = new Map<number, number>();
+    for (const value of values) {
+        counts.set(value, (counts.get(value) ?? 0) + 1);
+    }
+
+    let highest = 0;
+    for (const count of counts.values()) {
+        highest = Math.max(highest, count);
+    }
+
+    return sortAscending([...counts].filter(([, count]) => count === highest).map(([value]) => value));
+};
+
+/**
+ * Returns the value below which the fraction `q` of the values fall.
+ * @param q Fraction between 0 and 1.
+ * @throws Error when the list is empty or `q` is outside [0, 1].
+ */
+export const quantile = (values: number[], q: number, options?: QuantileOptions): number => {
+    assertNotEmpty(values, 'quantile');
+    if (!(q >= 0 && q <= 1)) {
+        throw new Error(`Quantile must be between 0 and 1, received ${q}`);
+    }
+    return interpolate(sortAscending(values), q * (values.length - 1), options?.interpolation ?? 'linear');
+};
+
+/**
+ * Same as `quantile` with the rank expressed as a percentage.
+ * @param p Percentage between 0 and 100.
+ * @throws Error when the list is empty or `p` is outside [0, 100].
+ */
+export const percentile = (values: number[], p: number, options?: QuantileOptions): number => {
+    if (!(p >= 0 && p <= 100)) {
+        throw new Error(`Percentile must be between 0 and 100, received ${p}`);
+    }
+    return quantile(values, p / 100, options);
+};
+
+/**
+ * Calculates the population variance, or the sample variance when `sample` is set.
+ * @throws Error when the list is empty, or has fewer than two values for a sample variance.
+ */
+export const variance = (values: number[], options?: VarianceOptions): number => {
+    const divisor = varianceDivisor(values.length, options, 'variance');
+    return squaredDeviations(values) / divisor;
+};
+
+/**
+ * Calculates the population standard deviation, or the sample one when `sample` is set.
+ * @throws Error when the list is empty, or has fewer than two values for a sample standard deviation.
+ */
+export const stdDev = (values: number[], options?: VarianceOptions): number => {
+    const divisor = varianceDivisor(values.length, options, 'standard deviation');
+    return Math.sqrt(squaredDeviations(values) / divisor);
+};
+
+/**
+ * Returns the smallest and largest values in a single pass.
+ * @throws Error when the list is empty.
+ */
+export const extent = (values: number[]): [number, number] => {
+    assertNotEmpty(values, 'extent');
+
+    let lowest = Infinity;
+    let highest = -Infinity;
+    for (const value of values) {
+        lowest = Math.min(lowest, value);
+        highest = Math.max(highest, value);
+    }
+    return [lowest, highest];
+};
+
+/**
+ * Returns the smallest value. Unlike `Math.min(...values)` it does not overflow the stack on large lists.
+ * @throws Error when the list is empty.
+ */
+export const min = (values: number[]): number => {
+    assertNotEmpty(values, 'min');
+    return extent(values)[0];
+};
+
+/**
+ * Returns the largest value. Unlike `Math.max(...values)` it does not overflow the stack on large lists.
+ * @throws Error when the list is empty.
+ */
+export const max = (values: number[]): number => {
+    assertNotEmpty(values, 'max');
+    return extent(values)[1];
+};
+
+/**
+ * Counts values into bins.
+ * @throws Error when there are no values and no `range`, or when the bins are invalid.
+ */
+export const histogram = (values: number[], options?: HistogramOptions): HistogramBin[] => {
+    const bins = options?.bins ?? 10;
+    let edges: number[];
+
+    if (Array.isArray(bins)) {
+        if (bins.length < 2 || bins.some((edge, index) => index > 0 && edge <= (bins[index - 1] as number))) {
+            throw new Error('Histogram edges must contain at least two strictly ascending values');
+        }
+        edges = bins;
+    } else {
+        if (!Number.isInteger(bins) || bins < 1) {
+            throw new Error(`Histogram bin count must be a positive integer, received ${bins}`);
+        }
+
+        const range = options?.range;
+        if (!isDefined(range)) {
+            assertNotEmpty(values, 'histogram');
+        }
+        let [start, end] = range ?? extent(values);
+        if (start > end) {
+            throw new Error('Histogram range must start before it ends');
+        }
+        if (start === end) {
+            start -= 0.5;
+            end += 0.5;
+        }
+
+        const width = (end - start) / bins;
+        edges = Array.from({ length: bins + 1 }, (_, index) => (index === bins ? end : start + width * index));
+    }
+
+    const result: HistogramBin[] = edges.slice(1).map((end, index) => ({ start: edges[index] as number, end, count: 0 }));
+    const first = edges[0] as number;
+    const last = edges[edges.length - 1] as number;
+
+    for (const value of values) {
+        if (!(value >= first && value <= last)) {
+            continue;
+        }
+
+        let low = 0;
+        let high = result.length - 1;
+        while (low < high) {
+            const middle = Math.ceil((low + high) / 2);
+            if ((result[middle] as HistogramBin).start <= value) {
+                low = middle;
+            } else {
+                high = middle - 1;
+            }
+        }
+        (result[low] as HistogramBin).count += 1;
+    }
+
+    return result;
+};
+
+/**
+ * Calculates the Pearson correlation coefficient between two paired series.
+ * @returns `NaN` when either series is constant.
+ * @throws Error when the series differ in length or hold fewer than two pairs.
+ */
+export const correlation = (xs: number[], ys: number[]): number => {
+    if (xs.length !== ys.length) {
+        throw new Error('Cannot compute correlation of series with different lengths');
+    }
+    if (xs.length < 2) {
+        throw new Error('Cannot compute correlation of fewer than two pairs');
+    }
+
+    const meanX = mean(xs);
+    const meanY = mean(ys);
+    let covariance = 0;
+    let varianceX = 0;
+    let varianceY = 0;
+
+    xs.forEach((x, index) => {
+        const dx = x - meanX;
+        const dy = (ys[index] as number) - meanY;
+        covariance += dx * dy;
+        varianceX += dx * dx;
+        varianceY += dy * dy;
+    });
+
+    return covariance / Math.sqrt(varianceX * varianceY);
+};
+
+/**
+ * Creates a streaming accumulator using Welford's algorithm, optionally resuming from a saved state.
+ * Accumulators built on separate workers can be combined with `merge`.
+ */
+export const createStatsAccumulator = (initial?: StatsAccumulatorState): StatsAccumulator => {
+    let state: StatsAccumulatorState = isDefined(initial) ? { ...initial } : { count: 0, sum: 0, mean: 0, m2: 0, min: Infinity, max: -Infinity };
+
+    const assertHasValues = (statistic: string): void => {
+        if (state.count === 0) {
+            throw new Error(`Cannot compute ${statistic} of an empty accumulator`);
+        }
+    };
+
+    const accumulator: StatsAccumulator = {
+        add: (value) => {
+            const count = state.count + 1;
+            const delta = value - state.mean;
+            const average = state.mean + delta / count;
+            state = {
+                count,
+                sum: state.sum + value,
+                mean: average,
+                m2: state.m2 + delta * (value - average),
+                min: Math.min(state.min, value),
+                max: Math.max(state.max, value),
+            };
+        },
+        merge: (other) => {
+            const incoming = 'state' in other ? other.state() : other;
+            if (incoming.count === 0) {
+                return;
+            }
+
+            const count = state.count + incoming.count;
+            const delta = incoming.mean - state.mean;
+            state = {
+                count,
+                sum: state.sum + incoming.sum,
+                mean: state.mean + (delta * incoming.count) / count,
+                m2: state.m2 + incoming.m2 + (delta * delta * state.count * incoming.count) / count,
+                min: Math.min(state.min, incoming.min),
+                max: Math.max(state.max, incoming.max),
+            };
+        },
+        count: () => state.count,
+        sum: () => state.sum,
+        mean: () => {
+            assertHasValues('mean');
+            return state.mean;
+        },
+        variance: (options) => {
+            assertHasValues('variance');
+            return state.m2 / varianceDivisor(state.count, options, 'variance');
+        },
+        stdDev: (options) => {
+            assertHasValues('standard deviation');
+            return Math.sqrt(state.m2 / varianceDivisor(state.count, options, 'standard deviation'));
+        },
+        min: () => {
+            assertHasValues('min');
+            return state.min;
+        },
+        max: () => {
+            assertHasValues('max');
+            return state.max;
+        },
+        state: () => ({ ...state }),
+    };
+
+    return accumulator;
+};
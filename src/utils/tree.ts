@@ -0,0 +1,218 @@
+import type { Optional, Predicate, Transformer } from '../types.js';
+import { isDefined } from './std.js';
+
+export type TreeNode<T> = { item: T; children: Array<TreeNode<T>> };
+
+export type TreeOptions<T, K> = {
+    id: Transformer<T, K>;
+    /**
+     * Returns the parent's id, or null/undefined for a root.
+     */
+    parentId: Transformer<T, Optional<K>>;
+};
+
+export type BuiltTree<T> = {
+    roots: Array<TreeNode<T>>;
+    /**
+     * Items whose parent id matches no item, each with its own subtree.
+     */
+    orphans: Array<TreeNode<T>>;
+    /**
+     * Each parent loop found, in parent order. Items in or under a loop are left out of `roots` and `orphans`.
+     */
+    cycles: T[][];
+};
+
+export type WalkOrder = 'depth-first' | 'breadth-first';
+
+/**
+ * Called for every visited node. Returning `false` stops the walk.
+ */
+export type TreeVisitor<T> = (node: TreeNode<T>, depth: number) => boolean | void;
+
+/**
+ * Builds a tree from flat rows linked by id and parent id, keeping the input order among siblings.
+ * @throws Error when two items share an id.
+ */
+export const buildTree = <T, K>(items: T[], options: TreeOptions<T, K>): BuiltTree<T> => {
+    const nodes = new Map<K, TreeNode<T>>();
+    for (const item of items) {
+        const id = options.id(item);
+        if (nodes.has(id)) {
+            throw new Error(`Duplicate tree node id "${String(id)}"`);
+        }
+        nodes.set(id, { item, children: [] });
+    }
+
+    const roots: Array<TreeNode<T>> = [];
+    const orphans: Array<TreeNode<T>> = [];
+    const parents = new Map<TreeNode<T>, TreeNode<T>>();
+
+    for (const node of nodes.values()) {
+        const parentId = options.parentId(node.item);
+        if (!isDefined(parentId)) {
+            roots.push(node);
+            continue;
+        }
+
+        const parent = nodes.get(parentId);
+        if (isDefined(parent)) {
+            parent.children.push(node);
+            parents.set(node, parent);
+        } else {
+            orphans.push(node);
+        }
+    }
+
+    const reached = new Set<TreeNode<T>>();
+    walkTree([...roots, ...orphans], (node) => {
+        reached.add(node);
+    });
+
+    const cycles: T[][] = [];
+    for (const node of nodes.values()) {
+        if (reached.has(node)) {
+            continue;
+        }
+
+        // Climb until a node repeats; the nodes from its first sighting onwards form the loop.
+        const chain = new Map<TreeNode<T>, number>();
+        let current: TreeNode<T> | undefined = node;
+        while (isDefined(current) && !reached.has(current) && !chain.has(current)) {
+            chain.set(current, chain.size);
+            current = parents.get(current);
+        }
+        if (isDefined(current) && chain.has(current)) {
+            cycles.push([...chain.keys()].slice(chain.get(current)).map((member) => member.item));
+        }
+        chain.forEach((_, member) => reached.add(member));
+    }
+
+    return { roots, orphans, cycles };
+};
+
+/**
+ * Visits every node, parents before children. Depth starts at 0 for the given roots.
+ * @returns False when the visitor stopped the walk early, true otherwise.
+ */
+export const walkTree = <T>(roots: Array<TreeNode<T>>, visitor: TreeVisitor<T>, order: WalkOrder = 'depth-first'): boolean => {
+    if (order === 'breadth-first') {
+        const queue: Array<[TreeNode<T>, number]> = roots.map((node) => [node, 0]);
+        for (let head = 0; head < queue.length; head += 1) {
+            const [node, depth] = queue[head]!;
+            if (visitor(node, depth) === false) {
+                return false;
+            }
+            queue.push(...node.children.map((child): [TreeNode<T>, number] => [child, depth + 1]));
+        }
+        return true;
+    }
+
+    const stack: Array<[TreeNode<T>, number]> = roots.map((node): [TreeNode<T>, number] => [node, 0]).reverse();
+    while (stack.length > 0) {
+        const [node, depth] = stack.pop()!;
+        if (visitor(node, depth) === false) {
+            return false;
+        }
+        for (let index = node.children.length - 1; index >= 0; index -= 1) {
+            stack.push([node.children[index]!, depth + 1]);
+        }
+    }
+    return true;
+};
+
+/**
+ * Lists the items of the tree in depth-first order.
+ */
+export const flattenTree = <T>(roots: Array<TreeNode<T>>): T[] => {
+    const items: T[] = [];
+    walkTree(roots, (node) => {
+        items.push(node.item);
+    });
+    return items;
+};
+
+/**
+ * Returns the items from a root down to the first node matching the predicate, both included,
+ * or undefined when no node matches.
+ */
+export const findPath = <T>(roots: Array<TreeNode<T>>, predicate: Predicate<T>): T[] | undefined => {
+    const path: T[] = [];
+    let found = false;
+
+    walkTree(roots, (node, depth) => {
+        path.length = depth;
+        path.push(node.item);
+        found = predicate(node.item);
+        return !found;
+    });
+
+    return found ? path : undefined;
+};
+
+/**
+ * Returns the first node matching the predicate in depth-first order, with its children.
+ */
+export const subtreeOf = <T>(roots: Array<TreeNode<T>>, predicate: Predicate<T>): TreeNode<T> | undefined => {
+    let match: TreeNode<T> | undefined;
+    walkTree(roots, (node) => {
+        if (predicate(node.item)) {
+            match = node;
+            return false;
+        }
+        return true;
+    });
+    return match;
+};
+
+/**
+ * Returns a tree of the same shape with every item transformed, calling `fn` in depth-first order.
+ */
+export const mapTree = <T, U>(roots: Array<TreeNode<T>>, fn: Transformer<T, U>): Array<TreeNode<U>> => {
+    const mapped: Array<TreeNode<U>> = [];
+    const path: Array<TreeNode<U>> = [];
+
+    walkTree(roots, (node, depth) => {
+        const copy: TreeNode<U> = { item: fn(node.item), children: [] };
+        path.length = depth;
+        (depth === 0 ? mapped : path[depth - 1]!.children).push(copy);
+        path.push(copy);
+    });
+
+    return mapped;
+};
+
+/**
+ * Keeps the nodes matching the predicate along with their ancestors, so matches stay reachable from a root.
+ * Children of a kept node are filtered as well.
+ */
+export const filterTree = <T>(roots: Array<TreeNode<T>>, predicate: Predicate<T>): Array<TreeNode<T>> => {
+    const visited: Array<{ item: T; parent: number; keep: boolean }> = [];
+    const path: number[] = [];
+
+    walkTree(roots, (node, depth) => {
+        path.length = depth;
+        path.push(visited.length);
+        visited.push({ item: node.item, parent: path[depth - 1] ?? -1, keep: predicate(node.item) });
+    });
+
+    // Nodes come after their ancestors, so walking backwards settles every descendant before its parent.
+    for (let index = visited.length - 1; index >= 0; index -= 1) {
+        const { parent, keep } = visited[index]!;
+        if (keep && parent !== -1) {
+            visited[parent]!.keep = true;
+        }
+    }
+
+    const filtered: Array<TreeNode<T>> = [];
+    const copies: Array<TreeNode<T> | undefined> = [];
+    for (const { item, parent, keep } of visited) {
+        const copy = keep ? { item, children: [] } : undefined;
+        copies.push(copy);
+        if (isDefined(copy)) {
+            (parent === -1 ? filtered : copies[parent]!.children).push(copy);
+        }
+    }
+
+    return filtered;
+};
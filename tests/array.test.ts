@@ -1,18 +1,30 @@
 import { describe, expect, it } from 'vitest';
 
+import { by } from '../src/utils/comparator.js';
 import {
     chunk,
     compact,
     count,
+    countBy,
     difference,
+    differenceBy,
     flatten,
     groupBy,
     intersection,
+    intersectionBy,
     isEmpty,
+    keyBy,
+    maxBy,
+    minBy,
     partition,
     range,
+    sortBy,
+    symmetricDifference,
+    unionBy,
     unique,
+    uniqueBy,
     without,
+    windowed,
     withoutAll,
     zip,
 } from '../src/utils/array.js';
@@ -56,6 +68,20 @@ describe('array utilities', () => {
         expect(() => chunk([1, 2], 0)).toThrow(/chunk size/);
     });
 
+    it('windowed returns full sliding windows', () => {
+        expect(windowed([1, 2, 3, 4, 5], 3)).toEqual([
+            [1, 2, 3],
+            [2, 3, 4],
+            [3, 4, 5],
+        ]);
+        expect(windowed([1, 2, 3, 4, 5], 2, 2)).toEqual([
+            [1, 2],
+            [3, 4],
+        ]);
+        expect(windowed([1, 2], 3)).toEqual([]);
+        expect(() => windowed([1, 2], 2, 0)).toThrow(/window size/);
+    });
+
     it('groupBy aggregates items under derived keys', () => {
         const grouped = groupBy(['ant', 'bear', 'bee'], (value) => value[0]!);
         expect(grouped).toEqual({
@@ -91,4 +117,108 @@ describe('array utilities', () => {
             [2, 'b'],
         ]);
     });
+
+    it('set operations keep SameValueZero semantics and duplicates of the first array', () => {
+        expect(intersection([NaN, 1, 1, 2], [1, NaN])).toEqual([NaN, 1, 1]);
+        expect(difference([0, 1, 1, 2], [-0, 2])).toEqual([1, 1]);
+        expect(withoutAll([NaN, 1], [NaN])).toEqual([1]);
+    });
+
+    it('set operations scale to large inputs', () => {
+        const a = Array.from({ length: 100_000 }, (_, index) => index);
+        const b = Array.from({ length: 100_000 }, (_, index) => index * 2);
+        expect(intersection(a, b)).toHaveLength(50_000);
+        expect(difference(a, b)).toHaveLength(50_000);
+        expect(symmetricDifference(a, b)).toHaveLength(100_000);
+    });
+
+    it('uniqueBy keeps the first item for each key', () => {
+        const users = [
+            { id: 1, name: 'Ann' },
+            { id: 2, name: 'Bob' },
+            { id: 1, name: 'Ann (copy)' },
+        ];
+        expect(uniqueBy(users, (user) => user.id)).toEqual([users[0], users[1]]);
+    });
+
+    it('intersectionBy, differenceBy and unionBy compare derived keys', () => {
+        const ledger = [{ ref: 'a' }, { ref: 'b' }, { ref: 'c' }];
+        const bank = [{ ref: 'b' }, { ref: 'c' }, { ref: 'd' }];
+        const ref = (row: { ref: string }) => row.ref;
+
+        expect(intersectionBy(ledger, bank, ref)).toEqual([{ ref: 'b' }, { ref: 'c' }]);
+        expect(differenceBy(ledger, bank, ref)).toEqual([{ ref: 'a' }]);
+        expect(unionBy(ledger, bank, ref).map(ref)).toEqual(['a', 'b', 'c', 'd']);
+        expect(unionBy(ledger, bank, ref)[1]).toBe(ledger[1]);
+    });
+
+    it('symmetricDifference returns elements found in only one array', () => {
+        expect(symmetricDifference([1, 2, 3], [2, 3, 4])).toEqual([1, 4]);
+        expect(symmetricDifference([{ id: 1 }, { id: 2 }], [{ id: 2 }, { id: 3 }], (item) => item.id)).toEqual([{ id: 1 }, { id: 3 }]);
+    });
+
+    it('keyBy indexes items and countBy counts them per key', () => {
+        const items = [
+            { id: 'a', type: 'fruit' },
+            { id: 'b', type: 'vegetable' },
+            { id: 'a', type: 'fruit', fresh: true },
+        ];
+        expect(keyBy(items, (item) => item.id)).toEqual({ a: items[2], b: items[1] });
+        expect(countBy(items, (item) => item.type)).toEqual({ fruit: 2, vegetable: 1 });
+        expect(countBy([], (item: string) => item)).toEqual({});
+    });
+
+    it('keyBy and countBy treat inherited property names as plain keys', () => {
+        const counts = countBy(['toString', '__proto__', 'toString'], (item) => item);
+        expect(counts.toString).toBe(2);
+        expect(counts.__proto__).toBe(1);
+        expect(Object.keys(counts)).toEqual(['toString', '__proto__']);
+
+        const indexed = keyBy([{ id: '__proto__' }, { id: 'constructor' }], (item) => item.id);
+        expect(Object.keys(indexed)).toEqual(['__proto__', 'constructor']);
+        expect(indexed.constructor).toEqual({ id: 'constructor' });
+    });
+
+    it('sortBy returns a stable sorted copy', () => {
+        const rows = [
+            { team: 'b', score: 1 },
+            { team: 'a', score: 2 },
+            { team: 'b', score: 2 },
+            { team: 'a', score: 1 },
+        ];
+        const sorted = sortBy(
+            rows,
+            by((row) => row.team),
+            by((row) => row.score, { direction: 'desc' }),
+        );
+
+        expect(sorted).toEqual([
+            { team: 'a', score: 2 },
+            { team: 'a', score: 1 },
+            { team: 'b', score: 2 },
+            { team: 'b', score: 1 },
+        ]);
+        expect(rows[0]).toEqual({ team: 'b', score: 1 });
+        expect(
+            sortBy(
+                rows,
+                by((row) => row.team),
+            ).map((row) => row.score),
+        ).toEqual([2, 1, 1, 2]);
+        expect(sortBy([3, 1, 2])).toEqual([1, 2, 3]);
+    });
+
+    it('minBy and maxBy return the first extreme item', () => {
+        const items = [
+            { id: 1, price: 5 },
+            { id: 2, price: null },
+            { id: 3, price: 2 },
+            { id: 4, price: 5 },
+            { id: 5, price: 2 },
+        ];
+        expect(minBy(items, (item) => item.price)?.id).toBe(3);
+        expect(maxBy(items, (item) => item.price)?.id).toBe(1);
+        expect(minBy([], (item: number) => item)).toBeUndefined();
+        expect(maxBy([{ price: null }], (item) => item.price)).toBeUndefined();
+    });
 });
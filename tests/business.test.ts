@@ -0,0 +1,95 @@
+import { describe, expect, it } from 'vitest';
+
+import { addBusinessDays, addBusinessHours, businessDaysBetween, isBusinessDay, nextBusinessDay } from '../src/utils/business.js';
+
+describe('business calendar utilities', () => {
+    const calendar = { utc: true, holidays: ['2024-12-25', new Date('2024-12-26T10:00:00.000Z')] };
+
+    it('isBusinessDay skips weekends and holidays', () => {
+        expect(isBusinessDay(new Date('2024-12-23T10:00:00.000Z'), calendar)).toBe(true);
+        expect(isBusinessDay(new Date('2024-12-25T10:00:00.000Z'), calendar)).toBe(false);
+        expect(isBusinessDay(new Date('2024-12-26T23:00:00.000Z'), calendar)).toBe(false);
+        expect(isBusinessDay(new Date('2024-12-28T10:00:00.000Z'), calendar)).toBe(false);
+    });
+
+    it('isBusinessDay supports custom weekend days', () => {
+        const friday = new Date('2024-12-27T10:00:00.000Z');
+        const sunday = new Date('2024-12-29T10:00:00.000Z');
+        expect(isBusinessDay(friday, { utc: true, weekendDays: [5, 6] })).toBe(false);
+        expect(isBusinessDay(sunday, { utc: true, weekendDays: [5, 6] })).toBe(true);
+    });
+
+    it('isBusinessDay evaluates the calendar day in the requested timeZone', () => {
+        const date = new Date('2024-12-23T03:00:00.000Z'); // Sunday evening in New York
+        expect(isBusinessDay(date, { utc: true })).toBe(true);
+        expect(isBusinessDay(date, { timeZone: 'America/New_York' })).toBe(false);
+    });
+
+    it('addBusinessDays moves across weekends and holidays keeping the time of day', () => {
+        const monday = new Date('2024-12-23T15:30:00.000Z');
+        expect(addBusinessDays(monday, 1, calendar).toISOString()).toBe('2024-12-24T15:30:00.000Z');
+        expect(addBusinessDays(monday, 2, calendar).toISOString()).toBe('2024-12-27T15:30:00.000Z');
+        expect(addBusinessDays(monday, 3, calendar).toISOString()).toBe('2024-12-30T15:30:00.000Z');
+        expect(addBusinessDays(new Date('2024-12-30T15:30:00.000Z'), -3, calendar).toISOString()).toBe('2024-12-23T15:30:00.000Z');
+        expect(addBusinessDays(monday, 0, calendar).toISOString()).toBe(monday.toISOString());
+    });
+
+    it('nextBusinessDay starts counting from weekends', () => {
+        const saturday = new Date('2024-12-21T08:00:00.000Z');
+        expect(nextBusinessDay(saturday, { utc: true }).toISOString()).toBe('2024-12-23T08:00:00.000Z');
+    });
+
+    it('businessDaysBetween counts working days in [start, end)', () => {
+        const start = new Date('2024-12-02T00:00:00.000Z');
+        const end = new Date('2025-01-02T00:00:00.000Z');
+        expect(businessDaysBetween(start, end, { utc: true })).toBe(23);
+        expect(businessDaysBetween(start, end, { ...calendar, holidays: [...calendar.holidays, '2025-01-01', '2024-12-28'] })).toBe(20);
+        expect(businessDaysBetween(end, start, calendar)).toBe(-21);
+        expect(businessDaysBetween(start, start, calendar)).toBe(0);
+    });
+
+    it('addBusinessHours only counts time within business hours', () => {
+        const options = { ...calendar, businessHours: { start: '09:00', end: '17:00' } };
+        expect(addBusinessHours(new Date('2024-12-23T15:00:00.000Z'), 4, options).toISOString()).toBe('2024-12-24T11:00:00.000Z');
+        expect(addBusinessHours(new Date('2024-12-24T16:00:00.000Z'), 2, options).toISOString()).toBe('2024-12-27T10:00:00.000Z');
+        expect(addBusinessHours(new Date('2024-12-21T12:00:00.000Z'), 1.5, options).toISOString()).toBe('2024-12-23T10:30:00.000Z');
+        expect(addBusinessHours(new Date('2024-12-27T10:00:00.000Z'), -2, options).toISOString()).toBe('2024-12-24T16:00:00.000Z');
+    });
+
+    it('addBusinessHours follows business hours in the requested timeZone', () => {
+        const options = { timeZone: 'Europe/Lisbon', businessHours: { start: '08:30', end: '12:00' } };
+        const friday = new Date('2024-03-29T11:00:00.000Z'); // 11:00 WET
+        expect(addBusinessHours(friday, 2, options).toISOString()).toBe('2024-04-01T08:30:00.000Z'); // 09:30 WEST
+    });
+
+    it('rejects invalid calendars', () => {
+        const date = new Date('2024-12-23T10:00:00.000Z');
+        expect(() => isBusinessDay(date, { weekendDays: [0, 1, 2, 3, 4, 5, 6] })).toThrow(/at least one working weekday/);
+        expect(() => isBusinessDay(date, { holidays: ['25/12/2024'] })).toThrow(/Invalid holiday/);
+        expect(() => addBusinessHours(date, 1, { businessHours: { start: '17:00', end: '09:00' } })).toThrow(/end after they start/);
+        expect(() => isBusinessDay(date, { weekendDays: [0, 7] })).toThrow('Invalid weekend day 7');
+        expect(() => businessDaysBetween(date, date, { weekendDays: [-1, 6] })).toThrow('Invalid weekend day -1');
+        expect(() => isBusinessDay(date, { weekendDays: [5.5] })).toThrow('Invalid weekend day 5.5');
+    });
+
+    it('counts duplicate weekend days once', () => {
+        const monday = new Date('2024-12-02T10:00:00.000Z');
+        const nextMonday = new Date('2024-12-16T10:00:00.000Z');
+        expect(businessDaysBetween(monday, nextMonday, { utc: true, weekendDays: [0, 6, 6, 0] })).toBe(10);
+    });
+
+    it('rejects amounts that are not finite instead of looping forever', () => {
+        const date = new Date('2024-12-23T10:00:00.000Z');
+        for (const amount of [NaN, Infinity, -Infinity]) {
+            expect(() => addBusinessDays(date, amount, calendar)).toThrow(/must be an integer/);
+            expect(() => addBusinessHours(date, amount, calendar)).toThrow(/finite number/);
+        }
+    });
+
+    it('addBusinessDays rejects fractional amounts instead of truncating them', () => {
+        const date = new Date('2024-12-23T10:00:00.000Z');
+        expect(() => addBusinessDays(date, 1.5, calendar)).toThrow('Business day amount must be an integer, received 1.5');
+        expect(() => addBusinessDays(date, -0.5, calendar)).toThrow(/must be an integer/);
+        expect(addBusinessDays(date, -0, calendar)).toEqual(date);
+    });
+});
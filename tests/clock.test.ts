@@ -0,0 +1,145 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import {
+    createFixedClock,
+    createTestClock,
+    getClock,
+    measure,
+    measureAsync,
+    resetClock,
+    setClock,
+    startStopwatch,
+    systemClock,
+    withClock,
+} from '../src/utils/clock.js';
+import { formatRelative, modifyDate, now } from '../src/utils/date.js';
+
+describe('clock utilities', () => {
+    afterEach(() => {
+        resetClock();
+    });
+
+    it('uses the system clock by default', () => {
+        expect(getClock()).toBe(systemClock);
+        const before = Date.now();
+        const current = now().getTime();
+        expect(current).toBeGreaterThanOrEqual(before);
+        expect(current).toBeLessThanOrEqual(Date.now());
+    });
+
+    it('withClock scopes a fixed clock to the callback', () => {
+        const clock = createFixedClock(new Date('2024-06-15T12:00:00.000Z'));
+        const value = withClock(clock, () => now().toISOString());
+        expect(value).toBe('2024-06-15T12:00:00.000Z');
+        expect(getClock()).toBe(systemClock);
+    });
+
+    it('withClock restores the previous clock when the callback throws', () => {
+        expect(() =>
+            withClock(createFixedClock(0), () => {
+                throw new Error('boom');
+            }),
+        ).toThrow('boom');
+        expect(getClock()).toBe(systemClock);
+    });
+
+    it('withClock keeps the clock installed until a returned promise settles', async () => {
+        const clock = createFixedClock(new Date('2024-06-15T12:00:00.000Z'));
+        const pending = withClock(clock, async () => {
+            await Promise.resolve();
+            return now().toISOString();
+        });
+        expect(getClock()).toBe(clock);
+        await expect(pending).resolves.toBe('2024-06-15T12:00:00.000Z');
+        expect(getClock()).toBe(systemClock);
+    });
+
+    it('withClock restores the system clock when overlapping async scopes settle out of order', async () => {
+        const first = createFixedClock(1);
+        const second = createFixedClock(2);
+        let finishFirst: () => void = () => {};
+        let finishSecond: () => void = () => {};
+
+        const pendingFirst = withClock(first, () => new Promise<void>((resolve) => (finishFirst = resolve)));
+        const pendingSecond = withClock(second, () => new Promise<void>((resolve) => (finishSecond = resolve)));
+        expect(getClock()).toBe(second);
+
+        finishFirst();
+        await pendingFirst;
+        expect(getClock()).toBe(second);
+
+        finishSecond();
+        await pendingSecond;
+        expect(getClock()).toBe(systemClock);
+    });
+
+    it('withClock restores in reverse order when overlapping async scopes settle in order', async () => {
+        const first = createFixedClock(1);
+        const second = createFixedClock(2);
+        let finishFirst: () => void = () => {};
+        let finishSecond: () => void = () => {};
+
+        const pendingFirst = withClock(first, () => new Promise<void>((resolve) => (finishFirst = resolve)));
+        const pendingSecond = withClock(second, () => new Promise<void>((resolve) => (finishSecond = resolve)));
+
+        finishSecond();
+        await pendingSecond;
+        expect(getClock()).toBe(first);
+
+        finishFirst();
+        await pendingFirst;
+        expect(getClock()).toBe(systemClock);
+    });
+
+    it('date helpers default their base date to the installed clock', () => {
+        const clock = createTestClock(new Date('2024-06-15T12:00:00.000Z'));
+        setClock(clock);
+
+        expect(modifyDate(1, 'day', undefined, { utc: true }).toISOString()).toBe('2024-06-16T12:00:00.000Z');
+        clock.advance(60 * 60 * 1000);
+        expect(formatRelative(new Date('2024-06-15T12:00:00.000Z'), undefined, { locale: 'en' })).toBe('1 hour ago');
+    });
+
+    it('setClock returns a function restoring the previous clock', () => {
+        const outer = createFixedClock(1);
+        const inner = createFixedClock(2);
+        setClock(outer);
+        const restore = setClock(inner);
+        expect(now().getTime()).toBe(2);
+        restore();
+        expect(now().getTime()).toBe(1);
+    });
+
+    it('test clocks advance wall and monotonic time separately from set', () => {
+        const clock = createTestClock(1000);
+        clock.advance(500);
+        expect(clock.now()).toBe(1500);
+        expect(clock.monotonic()).toBe(500);
+
+        clock.set(new Date('2024-01-01T00:00:00.000Z'));
+        expect(clock.now()).toBe(Date.UTC(2024, 0, 1));
+        expect(clock.monotonic()).toBe(500);
+        expect(() => clock.advance(-1)).toThrow(/backwards/);
+    });
+
+    it('startStopwatch and measure report monotonic elapsed time', async () => {
+        const clock = createTestClock();
+        const elapsed = startStopwatch(clock);
+        clock.advance(250);
+        expect(elapsed()).toBe(250);
+
+        expect(measure(() => clock.advance(40), clock)).toEqual({ value: undefined, elapsed: 40 });
+
+        setClock(clock);
+        const result = await measureAsync(async () => {
+            clock.advance(10);
+            return Promise.resolve('done');
+        });
+        expect(result).toEqual({ value: 'done', elapsed: 10 });
+    });
+
+    it('system monotonic time never goes backwards', () => {
+        const first = systemClock.monotonic();
+        expect(systemClock.monotonic()).toBeGreaterThanOrEqual(first);
+    });
+});
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+
+import { by, naturalOrder, reverse, thenBy } from '../src/utils/comparator.js';
+
+type Person = { name: string; age?: number | null; joined?: Date };
+
+const people: Person[] = [
+    { name: 'Émile', age: 30 },
+    { name: 'anna', age: null },
+    { name: 'Zoe', age: 25 },
+    { name: 'bob', age: 30 },
+];
+
+describe('comparator utilities', () => {
+    it('by orders by a derived key in either direction', () => {
+        expect([...people].sort(by((person) => person.age)).map((person) => person.name)).toEqual(['Zoe', 'Émile', 'bob', 'anna']);
+        expect([...people].sort(by((person) => person.age, { direction: 'desc' })).map((person) => person.name)).toEqual([
+            'Émile',
+            'bob',
+            'Zoe',
+            'anna',
+        ]);
+    });
+
+    it('by places null keys according to the nulls option', () => {
+        const ages = [{ age: 2 }, { age: undefined }, { age: 1 }];
+        expect(ages.sort(by((item) => item.age, { nulls: 'first', direction: 'desc' })).map((item) => item.age)).toEqual([undefined, 2, 1]);
+    });
+
+    it('by compares dates, bigints and booleans', () => {
+        const dates = [new Date('2024-02-01'), new Date('2023-05-01')];
+        expect(dates.sort(by((date) => date)).map((date) => date.getUTCFullYear())).toEqual([2023, 2024]);
+        expect([3n, 1n, 2n].sort(by((value) => value))).toEqual([1n, 2n, 3n]);
+        expect([true, false].sort(by((value) => value))).toEqual([false, true]);
+        expect([2, NaN, 1].sort(by((value) => value))).toEqual([1, 2, NaN]);
+    });
+
+    it('by uses the collator for strings', () => {
+        const names = people.map((person) => person.name);
+        expect([...names].sort(by((name) => name))).toEqual(['Zoe', 'anna', 'bob', 'Émile']);
+        expect([...names].sort(by((name) => name, { collator: new Intl.Collator('en') }))).toEqual(['anna', 'bob', 'Émile', 'Zoe']);
+    });
+
+    it('thenBy breaks ties with the next comparator', () => {
+        const comparator = thenBy<Person>(
+            by((person) => person.age, { direction: 'desc' }),
+            by((person) => person.name, { collator: new Intl.Collator('en') }),
+        );
+        expect([...people].sort(comparator).map((person) => person.name)).toEqual(['bob', 'Émile', 'Zoe', 'anna']);
+        expect(thenBy<number>()(1, 2)).toBe(0);
+    });
+
+    it('reverse inverts a comparator', () => {
+        expect([1, 3, 2].sort(reverse(by((value) => value)))).toEqual([3, 2, 1]);
+    });
+
+    it('naturalOrder sorts digit runs numerically', () => {
+        expect(['file10', 'file2', 'File1'].sort(naturalOrder('en'))).toEqual(['File1', 'file2', 'file10']);
+        expect(['b', 'a', 'B'].sort(naturalOrder('en', { caseFirst: 'upper' }))).toEqual(['a', 'B', 'b']);
+    });
+});
@@ -0,0 +1,145 @@
+import { describe, expect, it } from 'vitest';
+
+import { describeCron, nextRun, nextRuns, parseCron, previousRun } from '../src/utils/cron.js';
+
+const utc = { utc: true };
+
+describe('cron utilities', () => {
+    it('parseCron expands ranges, steps, lists and names', () => {
+        const result = parseCron('*/15 9-17 1,15 JAN-MAR mon-fri');
+        expect(result.ok).toBe(true);
+        if (result.ok) {
+            expect(result.value.hasSeconds).toBe(false);
+            expect(result.value.second.values).toEqual([0]);
+            expect(result.value.minute.values).toEqual([0, 15, 30, 45]);
+            expect(result.value.hour.values).toEqual([9, 10, 11, 12, 13, 14, 15, 16, 17]);
+            expect(result.value.dayOfMonth.values).toEqual([1, 15]);
+            expect(result.value.month.values).toEqual([1, 2, 3]);
+            expect(result.value.dayOfWeek.values).toEqual([1, 2, 3, 4, 5]);
+        }
+    });
+
+    it('parseCron supports seconds, Sunday as 7 and macros', () => {
+        const withSeconds = parseCron('30 10-40/10 * * * 7');
+        expect(withSeconds.ok && withSeconds.value.second.values).toEqual([30]);
+        expect(withSeconds.ok && withSeconds.value.minute.values).toEqual([10, 20, 30, 40]);
+        expect(withSeconds.ok && withSeconds.value.dayOfWeek.values).toEqual([0]);
+
+        const daily = parseCron('@daily');
+        expect(daily.ok && daily.value.hour.values).toEqual([0]);
+    });
+
+    it('parseCron reports descriptive errors', () => {
+        const cases: Array<[string, RegExp]> = [
+            ['* * * *', /expected 5 or 6 fields but got 4/],
+            ['60 * * * *', /minute field value "60" is out of range 0-59/],
+            ['* * 0 * *', /day of month field value "0" is out of range 1-31/],
+            ['* * * FOO *', /month field value "FOO" is not a number/],
+            ['*/0 * * * *', /step in "\*\/0" must be at least 1/],
+            ['5-1 * * * *', /range "5-1" ends before it starts/],
+            ['? * * * *', /"\?" is only allowed/],
+        ];
+
+        for (const [expression, message] of cases) {
+            const result = parseCron(expression);
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.message).toMatch(message);
+            }
+        }
+    });
+
+    it('nextRun finds the next matching time strictly after the date', () => {
+        const from = new Date('2024-01-31T10:07:30.000Z');
+        expect(nextRun('*/15 * * * *', from, utc)?.toISOString()).toBe('2024-01-31T10:15:00.000Z');
+        expect(nextRun('0 9 * * MON-FRI', from, utc)?.toISOString()).toBe('2024-02-01T09:00:00.000Z');
+        expect(nextRun('0 0 29 2 *', from, utc)?.toISOString()).toBe('2024-02-29T00:00:00.000Z');
+        expect(nextRun('0 0 29 2 *', new Date('2024-03-01T00:00:00.000Z'), utc)?.toISOString()).toBe('2028-02-29T00:00:00.000Z');
+        expect(nextRun('*/10 * * * * *', from, utc)?.toISOString()).toBe('2024-01-31T10:07:40.000Z');
+        expect(nextRun('15 10 31 1 *', new Date('2024-01-31T10:15:00.000Z'), utc)?.toISOString()).toBe('2025-01-31T10:15:00.000Z');
+    });
+
+    it('nextRun matches either day field when both are restricted', () => {
+        const from = new Date('2024-06-03T12:00:00.000Z'); // Monday
+        expect(nextRuns('0 0 13 * FRI', 3, from, utc).map((date) => date.toISOString())).toEqual([
+            '2024-06-07T00:00:00.000Z',
+            '2024-06-13T00:00:00.000Z',
+            '2024-06-14T00:00:00.000Z',
+        ]);
+    });
+
+    it('nextRun only ignores a day field when it starts with a wildcard', () => {
+        const from = new Date('2024-06-03T12:00:00.000Z'); // Monday
+        const runs = (expression: string) => nextRuns(expression, 2, from, utc).map((date) => date.toISOString());
+
+        // An explicit full range still restricts the field, so the other day field is OR-ed in and every day matches.
+        expect(runs('0 0 1-31 * FRI')).toEqual(['2024-06-04T00:00:00.000Z', '2024-06-05T00:00:00.000Z']);
+        expect(runs('0 0 13 * 0-6')).toEqual(['2024-06-04T00:00:00.000Z', '2024-06-05T00:00:00.000Z']);
+        expect(runs('0 0 * * FRI')).toEqual(['2024-06-07T00:00:00.000Z', '2024-06-14T00:00:00.000Z']);
+        expect(runs('0 0 13 * ?')).toEqual(['2024-06-13T00:00:00.000Z', '2024-07-13T00:00:00.000Z']);
+        expect(parseCron('0 0 1-31 * *')).toMatchObject({ ok: true, value: { dayOfMonth: { wildcard: false }, dayOfWeek: { wildcard: true } } });
+    });
+
+    it('nextRun requires both day fields when one is a stepped wildcard, like Vixie cron', () => {
+        const from = new Date('2024-06-03T12:00:00.000Z'); // Monday
+        const runs = (expression: string) => nextRuns(expression, 3, from, utc).map((date) => date.toISOString());
+
+        // Mondays falling on an odd day of the month.
+        expect(runs('0 0 */2 * 1')).toEqual(['2024-06-17T00:00:00.000Z', '2024-07-01T00:00:00.000Z', '2024-07-15T00:00:00.000Z']);
+        // Days 1 and 15 that are weekdays 0, 2, 4 or 6.
+        expect(runs('0 0 1,15 * */2')).toEqual(['2024-06-15T00:00:00.000Z', '2024-08-01T00:00:00.000Z', '2024-08-15T00:00:00.000Z']);
+        expect(parseCron('0 0 */2 * 1')).toMatchObject({
+            ok: true,
+            value: { dayOfMonth: { wildcard: false, starred: true }, dayOfWeek: { starred: false } },
+        });
+        expect(describeCron('0 0 */2 * 1')).toBe(
+            'At 00:00, on days 1, 3, 5, 7, 9, 11, 13, 15, 17, 19, 21, 23, 25, 27, 29 and 31 of the month and on Monday',
+        );
+    });
+
+    it('nextRun returns undefined for expressions that never fire', () => {
+        expect(nextRun('0 0 30 2 *', new Date('2024-01-01T00:00:00.000Z'), utc)).toBeUndefined();
+    });
+
+    it('previousRun finds the last matching time strictly before the date', () => {
+        const from = new Date('2024-02-01T09:00:00.000Z');
+        expect(previousRun('0 9 * * MON-FRI', from, utc)?.toISOString()).toBe('2024-01-31T09:00:00.000Z');
+        expect(previousRun('30 */6 * * *', from, utc)?.toISOString()).toBe('2024-02-01T06:30:00.000Z');
+        expect(previousRun('0 0 1 */3 *', from, utc)?.toISOString()).toBe('2024-01-01T00:00:00.000Z');
+        expect(previousRun('*/20 * * * * *', new Date('2024-02-01T09:00:00.500Z'), utc)?.toISOString()).toBe('2024-02-01T09:00:00.000Z');
+    });
+
+    it('nextRuns lists consecutive runs', () => {
+        const runs = nextRuns('0 12 1 * *', 3, new Date('2024-01-15T00:00:00.000Z'), utc);
+        expect(runs.map((date) => date.toISOString())).toEqual(['2024-02-01T12:00:00.000Z', '2024-03-01T12:00:00.000Z', '2024-04-01T12:00:00.000Z']);
+    });
+
+    it('nextRun evaluates fields in the requested timeZone across DST', () => {
+        const options = { timeZone: 'America/New_York' };
+        const from = new Date('2024-03-09T12:00:00.000Z');
+        expect(nextRuns('30 2 * * *', 2, from, options).map((date) => date.toISOString())).toEqual([
+            '2024-03-10T07:30:00.000Z',
+            '2024-03-11T06:30:00.000Z',
+        ]);
+        expect(nextRuns('30 1 * * *', 2, new Date('2024-11-03T04:00:00.000Z'), options).map((date) => date.toISOString())).toEqual([
+            '2024-11-03T05:30:00.000Z',
+            '2024-11-04T06:30:00.000Z',
+        ]);
+    });
+
+    it('nextRun throws for invalid string expressions', () => {
+        expect(() => nextRun('not a cron')).toThrow(/Invalid cron expression/);
+    });
+
+    it('describeCron renders human-readable descriptions', () => {
+        expect(describeCron('* * * * *')).toBe('Every minute');
+        expect(describeCron('*/5 * * * *')).toBe('Every 5 minutes');
+        expect(describeCron('0 * * * *')).toBe('At minute 0, every hour');
+        expect(describeCron('0 9 * * MON-FRI')).toBe('At 09:00, on Monday through Friday');
+        expect(describeCron('30 14 1,15 * *')).toBe('At 14:30, on days 1 and 15 of the month');
+        expect(describeCron('@yearly')).toBe('At 00:00, on day 1 of the month, in January');
+        expect(describeCron('*/15 9-17 * * *')).toBe('Every 15 minutes, every hour from 9 through 17');
+        expect(describeCron('15 30 8 * * SAT,SUN')).toBe('At 08:30:15, on Sunday and Saturday');
+        expect(describeCron('0 0 13 * 5')).toBe('At 00:00, on day 13 of the month or on Friday');
+    });
+});
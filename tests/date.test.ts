@@ -1,6 +1,28 @@
 import { afterEach, describe, expect, it, vi } from 'vitest';
 
-import { dateDiff, endOf, formatDate, isSame, modifyDate, now, parseDate, startOf } from '../src/utils/date.js';
+import {
+    dateDiff,
+    endOf,
+    formatDate,
+    formatDatePattern,
+    formatISOWeekDate,
+    formatRelative,
+    fromDateParts,
+    fromISOWeek,
+    getDateParts,
+    getDayOfYear,
+    getISOWeek,
+    getISOWeekYear,
+    getQuarter,
+    getRelativeTime,
+    isSame,
+    modifyDate,
+    now,
+    parseDate,
+    parseDatePattern,
+    parseISOWeekDate,
+    startOf,
+} from '../src/utils/date.js';
 
 describe('date utilities', () => {
     afterEach(() => {
@@ -130,4 +152,241 @@ describe('date utilities', () => {
         expect(isSame(sunday, monday, 'week', { weekStartsOn: 1 })).toBe(false);
         expect(isSame(sunday, monday, 'week')).toBe(true);
     });
+
+    it('startOf and endOf honor an IANA timeZone', () => {
+        const date = new Date('2024-07-10T23:30:00.000Z'); // 00:30 on July 11th in Lisbon
+        const options = { timeZone: 'Europe/Lisbon' };
+        expect(startOf(date, 'day', options).toISOString()).toBe('2024-07-10T23:00:00.000Z');
+        expect(endOf(date, 'day', options).toISOString()).toBe('2024-07-11T22:59:59.999Z');
+        expect(startOf(date, 'month', options).toISOString()).toBe('2024-06-30T23:00:00.000Z');
+        expect(startOf(date, 'week', { ...options, weekStartsOn: 1 }).toISOString()).toBe('2024-07-07T23:00:00.000Z');
+    });
+
+    it('startOf keeps sub-day units on the correct side of a DST overlap', () => {
+        const options = { timeZone: 'America/New_York' };
+        const secondOneThirty = new Date('2024-11-03T06:30:00.000Z'); // 01:30 EST, after falling back
+        expect(startOf(secondOneThirty, 'hour', options).toISOString()).toBe('2024-11-03T06:00:00.000Z');
+        expect(startOf(secondOneThirty, 'day', options).toISOString()).toBe('2024-11-03T04:00:00.000Z');
+        expect(endOf(secondOneThirty, 'day', options).toISOString()).toBe('2024-11-04T04:59:59.999Z');
+    });
+
+    it('isSame compares calendar days in the requested timeZone', () => {
+        const a = new Date('2024-01-15T04:00:00.000Z');
+        const b = new Date('2024-01-15T06:00:00.000Z');
+        expect(isSame(a, b, 'day', { utc: true })).toBe(true);
+        expect(isSame(a, b, 'day', { timeZone: 'America/New_York' })).toBe(false);
+    });
+
+    it('modifyDate keeps the wall clock across DST transitions when a timeZone is given', () => {
+        const options = { timeZone: 'Europe/Lisbon' };
+        const beforeSpringForward = new Date('2024-03-30T12:00:00.000Z'); // 12:00 WET
+        expect(modifyDate(1, 'day', beforeSpringForward, options).toISOString()).toBe('2024-03-31T11:00:00.000Z');
+        expect(modifyDate(24, 'hour', beforeSpringForward, options).toISOString()).toBe('2024-03-31T12:00:00.000Z');
+        expect(modifyDate(1, 'month', beforeSpringForward, options).toISOString()).toBe('2024-04-30T11:00:00.000Z');
+    });
+
+    it('modifyDate moves wall times skipped by DST forward', () => {
+        const options = { timeZone: 'America/New_York' };
+        const base = new Date('2024-03-09T07:30:00.000Z'); // 02:30 EST the day before spring forward
+        expect(modifyDate(1, 'day', base, options).toISOString()).toBe('2024-03-10T07:30:00.000Z'); // 03:30 EDT
+    });
+
+    it('dateDiff counts calendar days across DST transitions in a timeZone', () => {
+        const options = { timeZone: 'Europe/Lisbon' };
+        const start = new Date('2024-03-30T00:00:00.000Z');
+        const end = new Date('2024-04-01T23:00:00.000Z');
+        expect(dateDiff(start, end, 'day', options)).toBe(3);
+        expect(dateDiff(start, end, 'hour', options)).toBe(71);
+        expect(dateDiff(end, start, 'day', options)).toBe(-3);
+    });
+
+    it('dateDiff keeps elapsed days and weeks when no options are given', () => {
+        const start = new Date('2024-03-30T00:00:00.000Z');
+        const end = new Date('2024-04-01T23:00:00.000Z');
+        expect(dateDiff(start, end, 'day')).toBe(71 / 24);
+        expect(dateDiff(start, end, 'week')).toBe(71 / 168);
+        expect(dateDiff(start, end, 'day', { utc: true })).toBe(2 + 23 / 24);
+    });
+
+    it('dateDiff measures months on the calendar of the utc option', () => {
+        const start = new Date('2024-01-31T23:00:00.000Z');
+        const end = new Date('2024-03-31T23:00:00.000Z');
+        expect(dateDiff(start, end, 'month', { utc: true })).toBe(2);
+    });
+
+    it('parseDate interprets timezone-less strings in the requested timeZone', () => {
+        const options = { timeZone: 'Europe/Lisbon' };
+        expect(parseDate('2024-07-11T00:30:00', options).toISOString()).toBe('2024-07-10T23:30:00.000Z');
+        expect(parseDate('2024-01-11', options).toISOString()).toBe('2024-01-11T00:00:00.000Z');
+        expect(parseDate('2024-07-11T00:30:00Z', options).toISOString()).toBe('2024-07-11T00:30:00.000Z');
+    });
+
+    it('getDateParts and fromDateParts round-trip wall clock fields', () => {
+        const options = { timeZone: 'Asia/Kolkata' };
+        const date = new Date('2024-02-29T20:15:30.250Z');
+        const parts = getDateParts(date, options);
+        expect(parts).toEqual({ year: 2024, month: 2, day: 1, hour: 1, minute: 45, second: 30, millisecond: 250, weekday: 5 });
+        expect(fromDateParts(parts, options).getTime()).toBe(date.getTime());
+        expect(fromDateParts({ year: 2024, month: 0, day: 1 }, { utc: true }).toISOString()).toBe('2024-01-01T00:00:00.000Z');
+    });
+
+    it('throws for unknown time zones', () => {
+        expect(() => startOf(new Date(), 'day', { timeZone: 'Mars/Olympus_Mons' })).toThrow(RangeError);
+    });
+
+    it('formatDatePattern renders locale-independent tokens', () => {
+        const date = new Date('2024-03-05T07:08:09.045Z');
+        expect(formatDatePattern(date, 'yyyy-MM-dd HH:mm:ss.SSS xxx', { utc: true })).toBe('2024-03-05 07:08:09.045 +00:00');
+        expect(formatDatePattern(date, "EEEE, MMMM d 'at' h:mm a", { utc: true })).toBe('Tuesday, March 5 at 7:08 AM');
+        expect(formatDatePattern(date, "yyMMdd'T'HHmmXX", { utc: true })).toBe('240305T0708Z');
+        expect(formatDatePattern(date, "'It''s' EEE", { utc: true })).toBe("It's Tue");
+    });
+
+    it('formatDatePattern renders offsets of the requested timeZone', () => {
+        const date = new Date('2024-07-10T23:30:00.000Z');
+        expect(formatDatePattern(date, 'yyyy-MM-dd HH:mm xxx', { timeZone: 'Europe/Lisbon' })).toBe('2024-07-11 00:30 +01:00');
+        expect(formatDatePattern(date, 'HH:mm xx', { timeZone: 'America/St_Johns' })).toBe('21:00 -0230');
+    });
+
+    it('formatDatePattern rejects unsupported tokens', () => {
+        expect(() => formatDatePattern(new Date(), 'yyyy-QQ')).toThrow(/Unsupported date format token "QQ"/);
+    });
+
+    it('parseDatePattern reads values strictly', () => {
+        const parsed = parseDatePattern('2024-03-05 07:08:09.045', 'yyyy-MM-dd HH:mm:ss.SSS', { utc: true });
+        expect(parsed.ok && parsed.value.toISOString()).toBe('2024-03-05T07:08:09.045Z');
+
+        const withOffset = parseDatePattern('05/03/2024 7:08 PM -03:00', 'dd/MM/yyyy h:mm a xxx');
+        expect(withOffset.ok && withOffset.value.toISOString()).toBe('2024-03-05T22:08:00.000Z');
+
+        const zoned = parseDatePattern('2024-07-11 00:30', 'yyyy-MM-dd HH:mm', { timeZone: 'Europe/Lisbon' });
+        expect(zoned.ok && zoned.value.toISOString()).toBe('2024-07-10T23:30:00.000Z');
+    });
+
+    it('parseDatePattern returns errors for invalid input', () => {
+        const cases: Array<[string, string]> = [
+            ['2024-02-30', 'yyyy-MM-dd'],
+            ['2024-13-01', 'yyyy-MM-dd'],
+            ['2024-1-01', 'yyyy-MM-dd'],
+            ['Mon 2024-03-05', 'EEE yyyy-MM-dd'],
+            ['2024-03-05 25:00', 'yyyy-MM-dd HH:mm'],
+            ['07:00', 'hh:mm'],
+            ['2024-03-05', 'yyyy-QQ-dd'],
+        ];
+
+        for (const [value, format] of cases) {
+            const result = parseDatePattern(value, format, { utc: true });
+            expect(result.ok).toBe(false);
+        }
+    });
+
+    it('parseDatePattern rejects wall times skipped by DST', () => {
+        const result = parseDatePattern('2024-03-10 02:30', 'yyyy-MM-dd HH:mm', { timeZone: 'America/New_York' });
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error.message).toMatch(/does not exist/);
+        }
+    });
+
+    it('parseDate returns a Result when a format is provided', () => {
+        const parsed = parseDate('20240305', { format: 'yyyyMMdd', utc: true });
+        expect(parsed).toEqual({ ok: true, value: new Date('2024-03-05T00:00:00.000Z') });
+        expect(parseDate('not a date', { format: 'yyyyMMdd' }).ok).toBe(false);
+    });
+
+    it('formatDatePattern and parseDatePattern round-trip', () => {
+        const format = "yyyy-MM-dd'T'HH:mm:ss.SSSxxx";
+        const date = new Date('2024-11-03T06:30:00.000Z');
+        const text = formatDatePattern(date, format, { timeZone: 'America/New_York' });
+        expect(text).toBe('2024-11-03T01:30:00.000-05:00');
+        const parsed = parseDatePattern(text, format);
+        expect(parsed.ok && parsed.value.getTime()).toBe(date.getTime());
+    });
+
+    it('getRelativeTime picks the best unit using default thresholds', () => {
+        const base = new Date('2024-06-15T12:00:00.000Z');
+        const at = (iso: string) => getRelativeTime(new Date(iso), base, { utc: true });
+
+        expect(at('2024-06-15T12:00:30.000Z')).toEqual({ value: 30, unit: 'second' });
+        expect(at('2024-06-15T12:00:50.000Z')).toEqual({ value: 1, unit: 'minute' });
+        expect(at('2024-06-15T09:00:00.000Z')).toEqual({ value: -3, unit: 'hour' });
+        expect(at('2024-06-12T12:00:00.000Z')).toEqual({ value: -3, unit: 'day' });
+        expect(at('2024-06-29T12:00:00.000Z')).toEqual({ value: 2, unit: 'week' });
+        expect(at('2024-09-15T12:00:00.000Z')).toEqual({ value: 3, unit: 'month' });
+        expect(at('2021-06-15T12:00:00.000Z')).toEqual({ value: -3, unit: 'year' });
+    });
+
+    it('getRelativeTime honors custom thresholds and rounding', () => {
+        const base = new Date('2024-06-15T12:00:00.000Z');
+        const date = new Date('2024-06-25T00:00:00.000Z');
+        expect(getRelativeTime(date, base, { utc: true })).toEqual({ value: 1, unit: 'week' });
+        expect(getRelativeTime(date, base, { utc: true, thresholds: { day: 14 }, rounding: 'floor' })).toEqual({ value: 9, unit: 'day' });
+    });
+
+    it('formatRelative renders phrases through Intl.RelativeTimeFormat', () => {
+        const base = new Date('2024-06-15T12:00:00.000Z');
+        expect(formatRelative(new Date('2024-06-12T12:00:00.000Z'), base, { locale: 'en' })).toBe('3 days ago');
+        expect(formatRelative(new Date('2024-06-15T14:00:00.000Z'), base, { locale: 'en' })).toBe('in 2 hours');
+        expect(formatRelative(new Date('2024-06-14T12:00:00.000Z'), base, { locale: 'en' })).toBe('yesterday');
+        expect(formatRelative(new Date('2024-06-14T12:00:00.000Z'), base, { locale: 'en', numeric: 'always' })).toBe('1 day ago');
+        expect(formatRelative(new Date('2024-06-15T11:59:59.800Z'), base, { locale: 'en' })).toBe('now');
+        expect(formatRelative(new Date('2024-06-12T12:00:00.000Z'), base, { locale: 'pt' })).toBe('há 3 dias');
+    });
+
+    it('formatRelative defaults the base date to now', () => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-06-15T12:00:00.000Z'));
+        expect(formatRelative(new Date('2024-06-15T11:55:00.000Z'), undefined, { locale: 'en' })).toBe('5 minutes ago');
+    });
+
+    it('supports the quarter unit across the helpers', () => {
+        const date = new Date('2024-05-20T10:00:00.000Z');
+        const options = { utc: true };
+        expect(startOf(date, 'quarter', options).toISOString()).toBe('2024-04-01T00:00:00.000Z');
+        expect(endOf(date, 'quarter', options).toISOString()).toBe('2024-06-30T23:59:59.999Z');
+        expect(isSame(date, new Date('2024-06-30T00:00:00.000Z'), 'quarter', options)).toBe(true);
+        expect(isSame(date, new Date('2024-07-01T00:00:00.000Z'), 'quarter', options)).toBe(false);
+        expect(modifyDate(2, 'quarter', date, options).toISOString()).toBe('2024-11-20T10:00:00.000Z');
+        expect(dateDiff(new Date('2024-01-01T00:00:00.000Z'), new Date('2025-01-01T00:00:00.000Z'), 'quarter', options)).toBe(4);
+        expect(startOf(date, 'quarter', { timeZone: 'Europe/Lisbon' }).toISOString()).toBe('2024-03-31T23:00:00.000Z');
+    });
+
+    it('getQuarter and getDayOfYear read calendar positions', () => {
+        expect(getQuarter(new Date('2024-05-20T10:00:00.000Z'), { utc: true })).toBe(2);
+        expect(getQuarter(new Date('2024-12-31T23:30:00.000Z'), { timeZone: 'Europe/Berlin' })).toBe(1);
+        expect(getDayOfYear(new Date('2024-01-01T00:00:00.000Z'), { utc: true })).toBe(1);
+        expect(getDayOfYear(new Date('2024-12-31T12:00:00.000Z'), { utc: true })).toBe(366);
+    });
+
+    it('getISOWeek and getISOWeekYear follow ISO-8601 numbering', () => {
+        const cases: Array<[string, number, number]> = [
+            ['2026-10-14', 42, 2026],
+            ['2021-01-03', 53, 2020],
+            ['2024-12-30', 1, 2025],
+            ['2026-12-31', 53, 2026],
+        ];
+        for (const [iso, week, year] of cases) {
+            const date = new Date(`${iso}T12:00:00.000Z`);
+            expect(getISOWeek(date, { utc: true })).toBe(week);
+            expect(getISOWeekYear(date, { utc: true })).toBe(year);
+        }
+    });
+
+    it('fromISOWeek resolves week dates', () => {
+        expect(fromISOWeek(2026, 42, 3, { utc: true }).toISOString()).toBe('2026-10-14T00:00:00.000Z');
+        expect(fromISOWeek(2025, 1, undefined, { utc: true }).toISOString()).toBe('2024-12-30T00:00:00.000Z');
+        expect(() => fromISOWeek(2025, 53)).toThrow(/has no week 53/);
+        expect(() => fromISOWeek(2026, 53, 8)).toThrow(/weekday/);
+    });
+
+    it('formatISOWeekDate and parseISOWeekDate round-trip', () => {
+        const date = new Date('2026-10-14T15:00:00.000Z');
+        expect(formatISOWeekDate(date, { utc: true })).toBe('2026-W42-3');
+        expect(parseISOWeekDate('2026-W42-3', { utc: true })).toEqual({ ok: true, value: new Date('2026-10-14T00:00:00.000Z') });
+        expect(parseISOWeekDate('2026W423', { utc: true })).toEqual({ ok: true, value: new Date('2026-10-14T00:00:00.000Z') });
+        expect(parseISOWeekDate('2026-W42', { utc: true })).toEqual({ ok: true, value: new Date('2026-10-12T00:00:00.000Z') });
+        expect(parseISOWeekDate('2025-W53-1').ok).toBe(false);
+        expect(parseISOWeekDate('2026-W42-9').ok).toBe(false);
+        expect(parseISOWeekDate('2026-42-3').ok).toBe(false);
+    });
 });
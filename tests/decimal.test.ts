@@ -0,0 +1,93 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    addDecimals,
+    compareDecimals,
+    decimal,
+    decimalToNumber,
+    decimalToString,
+    divideDecimals,
+    formatDecimal,
+    multiplyDecimals,
+    negateDecimal,
+    parseDecimal,
+    roundDecimal,
+    subtractDecimals,
+} from '../src/utils/decimal.js';
+
+describe('decimal utilities', () => {
+    it('decimal reads numbers, bigints and strings exactly', () => {
+        expect(decimal(1.005)).toEqual({ units: 1005n, scale: 3 });
+        expect(decimal(12n)).toEqual({ units: 12n, scale: 0 });
+        expect(decimal('-0.50')).toEqual({ units: -50n, scale: 2 });
+        expect(decimal(1e-7)).toEqual({ units: 1n, scale: 7 });
+        expect(decimal('1.5e3')).toEqual({ units: 1500n, scale: 0 });
+        expect(() => decimal(NaN)).toThrow(/Cannot convert NaN/);
+        expect(() => decimal('12,5')).toThrow(/Invalid decimal/);
+    });
+
+    it('parseDecimal returns a Result', () => {
+        expect(parseDecimal('.25')).toEqual({ ok: true, value: { units: 25n, scale: 2 } });
+        expect(parseDecimal('abc').ok).toBe(false);
+        expect(parseDecimal('').ok).toBe(false);
+    });
+
+    it('parseDecimal rejects exponents beyond 1000 in magnitude', () => {
+        expect(parseDecimal('1e1000')).toEqual({ ok: true, value: { units: 10n ** 1000n, scale: 0 } });
+        expect(parseDecimal('1e-1000')).toEqual({ ok: true, value: { units: 1n, scale: 1000 } });
+        for (const value of ['1e1001', '1e1000000000', '-.5e-1000000000', `1e${'9'.repeat(400)}`]) {
+            const result = parseDecimal(value);
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.message).toMatch(/exponent .* out of range/);
+            }
+        }
+        expect(() => decimal('1e1000000000')).toThrow(/out of range/);
+    });
+
+    it('decimalToString and decimalToNumber convert back', () => {
+        expect(decimalToString({ units: 5n, scale: 3 })).toBe('0.005');
+        expect(decimalToString({ units: -150n, scale: 2 })).toBe('-1.50');
+        expect(decimalToString('42')).toBe('42');
+        expect(decimalToNumber('0.1')).toBe(0.1);
+    });
+
+    it('roundDecimal supports every rounding mode', () => {
+        const round = (value: string, mode: Parameters<typeof roundDecimal>[2]) => decimalToString(roundDecimal(value, 0, mode));
+        expect(decimalToString(roundDecimal(1.005, 2))).toBe('1.01');
+        expect(['2.5', '-2.5', '3.5', '2.4', '-2.6'].map((value) => round(value, 'half-up'))).toEqual(['3', '-3', '4', '2', '-3']);
+        expect(['2.5', '-2.5', '3.5', '2.6'].map((value) => round(value, 'half-even'))).toEqual(['2', '-2', '4', '3']);
+        expect(['2.1', '-2.1'].map((value) => round(value, 'floor'))).toEqual(['2', '-3']);
+        expect(['2.1', '-2.1'].map((value) => round(value, 'ceil'))).toEqual(['3', '-2']);
+        expect(['2.9', '-2.9'].map((value) => round(value, 'truncate'))).toEqual(['2', '-2']);
+        expect(decimalToString(roundDecimal('1.5', 3))).toBe('1.500');
+        expect(() => roundDecimal('1', -1)).toThrow(/non-negative integer/);
+    });
+
+    it('arithmetic is exact', () => {
+        expect(decimalToString(addDecimals(0.1, 0.2))).toBe('0.3');
+        expect(decimalToString(subtractDecimals('1.00', '0.01'))).toBe('0.99');
+        expect(decimalToString(multiplyDecimals('19.99', 3))).toBe('59.97');
+        expect(decimalToString(negateDecimal('2.5'))).toBe('-2.5');
+    });
+
+    it('divideDecimals rounds to the requested scale', () => {
+        expect(decimalToString(divideDecimals(1, 3, 4))).toBe('0.3333');
+        expect(decimalToString(divideDecimals(2, 3, 2))).toBe('0.67');
+        expect(decimalToString(divideDecimals('-1', 8, 2, 'half-even'))).toBe('-0.12');
+        expect(decimalToString(divideDecimals('10.5', '0.25', 0))).toBe('42');
+        expect(decimalToString(divideDecimals('1.23456', '1', 2, 'truncate'))).toBe('1.23');
+        expect(() => divideDecimals(1, '0.00', 2)).toThrow(/by zero/);
+    });
+
+    it('compareDecimals ignores scale', () => {
+        expect(compareDecimals('1.50', '1.5')).toBe(0);
+        expect(compareDecimals('-1', '0.001')).toBe(-1);
+        expect(compareDecimals(2n, '1.999')).toBe(1);
+    });
+
+    it('formatDecimal formats through formatNumber without losing precision', () => {
+        expect(formatDecimal('12345678901234567.89', 'en-US', { minimumFractionDigits: 2 })).toBe('12,345,678,901,234,567.89');
+        expect(formatDecimal('1234.5', 'de-DE')).toBe('1.234,5');
+    });
+});
@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { applyArrayDiff, diffArrays } from '../src/utils/diff.js';
+import { createRandom, randomInt, shuffle } from '../src/utils/random.js';
+
+type Row = { id: number; name: string };
+
+const byId = { key: (row: Row) => row.id, equals: (a: Row, b: Row) => a.name === b.name };
+
+describe('diff utilities', () => {
+    it('returns no operations for equal arrays', () => {
+        expect(diffArrays([1, 2, 3], [1, 2, 3])).toEqual([]);
+        expect(diffArrays([], [])).toEqual([]);
+    });
+
+    it('reports insertions and deletions', () => {
+        expect(diffArrays(['a', 'b', 'c'], ['a', 'c', 'd'])).toEqual([
+            { type: 'delete', index: 1, item: 'b' },
+            { type: 'insert', index: 2, item: 'd' },
+        ]);
+    });
+
+    it('reports a single move instead of shifting the rest', () => {
+        const operations = diffArrays(['x', 'a', 'b', 'c'], ['a', 'b', 'c', 'x']);
+        expect(operations).toEqual([{ type: 'move', from: 0, to: 3, item: 'x' }]);
+    });
+
+    it('reports updates for items with the same key', () => {
+        const before: Row[] = [
+            { id: 1, name: 'Ada' },
+            { id: 2, name: 'Bob' },
+        ];
+        const after: Row[] = [
+            { id: 2, name: 'Bobby' },
+            { id: 1, name: 'Ada' },
+        ];
+
+        const operations = diffArrays(before, after, byId);
+        expect(operations.filter((operation) => operation.type === 'move')).toHaveLength(1);
+        expect(operations.filter((operation) => operation.type === 'update')).toEqual([
+            { type: 'update', index: 0, previous: before[1], item: after[0] },
+        ]);
+        expect(applyArrayDiff(before, operations)).toEqual(after);
+    });
+
+    it('matches duplicate keys in order', () => {
+        const before = [1, 2, 1, 3];
+        const after = [3, 1, 1, 2];
+        expect(applyArrayDiff(before, diffArrays(before, after))).toEqual(after);
+    });
+
+    it('keeps small edits on long lists cheap', () => {
+        const before = Array.from({ length: 100_000 }, (_, index) => index);
+        const after = [...before];
+        after.splice(50_000, 1, -1);
+        after.push(100_000);
+
+        expect(diffArrays(before, after)).toEqual([
+            { type: 'delete', index: 50_000, item: 50_000 },
+            { type: 'insert', index: 50_000, item: -1 },
+            { type: 'insert', index: 100_000, item: 100_000 },
+        ]);
+    });
+
+    it('handles unrelated lists beyond the edit distance limit', () => {
+        const random = createRandom('diff');
+        const before = Array.from({ length: 3_000 }, (_, index) => index);
+        const after = shuffle(before, random);
+        const operations = diffArrays(before, after);
+
+        expect(operations.every((operation) => operation.type === 'move')).toBe(true);
+        expect(applyArrayDiff(before, operations)).toEqual(after);
+    });
+
+    it('moves items of a long reversed list without rescanning the working array', () => {
+        const before = Array.from({ length: 100_000 }, (_, index) => index);
+        const operations = diffArrays(before, [...before].reverse());
+
+        expect(operations).toHaveLength(99_999);
+        expect(operations[0]).toEqual({ type: 'move', from: 99_999, to: 0, item: 99_999 });
+        expect(operations[99_998]).toEqual({ type: 'move', from: 99_999, to: 99_998, item: 1 });
+    });
+
+    it('round-trips random edits', () => {
+        const random = createRandom(42);
+        for (let run = 0; run < 200; run += 1) {
+            const before = Array.from({ length: randomInt(0, 12, random) }, () => randomInt(0, 8, random));
+            const after = Array.from({ length: randomInt(0, 12, random) }, () => randomInt(0, 8, random));
+            expect(applyArrayDiff(before, diffArrays(before, after))).toEqual(after);
+        }
+    });
+
+    it('applyArrayDiff does not mutate its input and rejects bad indexes', () => {
+        const source = [1, 2, 3];
+        expect(applyArrayDiff(source, [{ type: 'delete', index: 0, item: 1 }])).toEqual([2, 3]);
+        expect(source).toEqual([1, 2, 3]);
+        expect(() => applyArrayDiff(source, [{ type: 'update', index: 3, previous: 4, item: 5 }])).toThrow('out of bounds');
+    });
+});
@@ -0,0 +1,164 @@
+import { describe, expect, it } from 'vitest';
+
+import { modifyDate } from '../src/utils/date.js';
+import {
+    addDurations,
+    dateDiffDuration,
+    durationToMilliseconds,
+    formatDuration,
+    formatDurationMs,
+    negateDuration,
+    normalizeDuration,
+    parseDuration,
+    parseDurationMs,
+} from '../src/utils/duration.js';
+
+describe('duration utilities', () => {
+    it('parseDuration reads ISO 8601 durations', () => {
+        expect(parseDuration('P1M3DT2H')).toEqual({ ok: true, value: { month: 1, day: 3, hour: 2 } });
+        expect(parseDuration('P2W')).toEqual({ ok: true, value: { week: 2 } });
+        expect(parseDuration('-PT1.5S')).toEqual({ ok: true, value: { second: -1, millisecond: -500 } });
+        expect(parseDuration('PT0,25H')).toEqual({ ok: true, value: { minute: 15 } });
+    });
+
+    it('parseDuration splits fractional units into smaller ones', () => {
+        expect(parseDuration('P1.5D')).toEqual({ ok: true, value: { day: 1, hour: 12 } });
+        expect(parseDuration('P0.5W')).toEqual({ ok: true, value: { day: 3, hour: 12 } });
+        expect(parseDuration('-PT1.75M')).toEqual({ ok: true, value: { minute: -1, second: -45 } });
+        expect(parseDuration('PT0.1H')).toEqual({ ok: true, value: { minute: 6 } });
+    });
+
+    it('parseDuration rejects fractional years and months', () => {
+        expect(parseDuration('P1.5Y').ok).toBe(false);
+        expect(parseDuration('P0.5M').ok).toBe(false);
+    });
+
+    it('parseDuration rejects malformed input', () => {
+        for (const value of ['', 'P', 'PT', 'P1DT', '1D', 'P1.5DT2H', 'PT1H2D']) {
+            const result = parseDuration(value);
+            expect(result.ok).toBe(false);
+            if (!result.ok) {
+                expect(result.error.message).toMatch(/Invalid ISO 8601 duration/);
+            }
+        }
+    });
+
+    it('formatDuration serializes durations to ISO 8601', () => {
+        expect(formatDuration({ month: 1, day: 3, hour: 2 })).toBe('P1M3DT2H');
+        expect(formatDuration({ second: 1, millisecond: 500 })).toBe('PT1.5S');
+        expect(formatDuration({ year: -1, minute: -30 })).toBe('-P1YT30M');
+        expect(formatDuration({})).toBe('PT0S');
+        expect(formatDuration({ quarter: 1, month: -1 })).toBe('P2M');
+    });
+
+    it('formatDuration rejects mixed signs', () => {
+        expect(() => formatDuration({ month: 1, day: -3 })).toThrow(/mixing positive and negative/);
+        expect(() => formatDuration({ hour: -1, second: 30 })).toThrow(/mixing positive and negative/);
+        expect(() => formatDuration({ second: 1, millisecond: -500 })).toThrow(/mixing positive and negative/);
+        expect(() => formatDuration({ second: -2, millisecond: 1 })).toThrow(/mixing positive and negative/);
+    });
+
+    it('formatDuration writes fractional seconds from whole milliseconds', () => {
+        expect(formatDuration({ millisecond: 1 })).toBe('PT0.001S');
+        expect(formatDuration({ millisecond: 0.0001 })).toBe('PT0S');
+        expect(formatDuration({ second: 0.1, millisecond: 200 })).toBe('PT0.3S');
+        expect(formatDuration({ second: -1, millisecond: -50 })).toBe('-PT1.05S');
+        expect(formatDuration({ minute: 1, millisecond: 2_500 })).toBe('PT1M2.5S');
+    });
+
+    it('formatDuration round-trips through parseDuration', () => {
+        const duration = { year: 2, week: 1, hour: 5, second: 7, millisecond: 125 };
+        expect(parseDuration(formatDuration(duration))).toEqual({ ok: true, value: duration });
+    });
+
+    it('addDurations and negateDuration combine unit by unit', () => {
+        expect(addDurations({ day: 1, hour: 20 }, { hour: 5 }, { day: -1 })).toEqual({ hour: 25 });
+        expect(negateDuration({ month: 2, day: -1 })).toEqual({ month: -2, day: 1 });
+    });
+
+    it('normalizeDuration balances units with fixed ratios', () => {
+        expect(normalizeDuration({ month: 14, day: 10, hour: 25, millisecond: 1500 })).toEqual({
+            year: 1,
+            month: 2,
+            week: 1,
+            day: 4,
+            hour: 1,
+            second: 1,
+            millisecond: 500,
+        });
+        expect(normalizeDuration({ hour: 1, minute: -90 })).toEqual({ minute: -30 });
+    });
+
+    it('durationToMilliseconds resolves calendar units against the reference date', () => {
+        expect(durationToMilliseconds({ month: 1 }, new Date('2024-02-01T00:00:00.000Z'), { utc: true })).toBe(29 * 24 * 3600 * 1000);
+        expect(durationToMilliseconds({ day: 1 }, new Date('2024-03-31T00:00:00.000Z'), { timeZone: 'Europe/Lisbon' })).toBe(23 * 3600 * 1000);
+    });
+
+    it('modifyDate accepts a duration', () => {
+        const base = new Date('2024-01-31T10:00:00.000Z');
+        expect(modifyDate({ month: 1, day: 3, hour: 2 }, base, { utc: true }).toISOString()).toBe('2024-03-05T12:00:00.000Z');
+        expect(modifyDate({ year: -1 }, base).toISOString()).toBe('2023-01-31T10:00:00.000Z');
+    });
+
+    it('dateDiffDuration breaks a difference down into calendar units', () => {
+        const start = new Date('2024-01-15T08:00:00.000Z');
+        const end = new Date('2025-03-18T10:30:05.250Z');
+        const duration = dateDiffDuration(start, end, { utc: true });
+
+        expect(duration).toEqual({ year: 1, month: 2, day: 3, hour: 2, minute: 30, second: 5, millisecond: 250 });
+        expect(modifyDate(duration, start, { utc: true }).getTime()).toBe(end.getTime());
+        expect(dateDiffDuration(end, start, { utc: true })).toEqual({
+            year: -1,
+            month: -2,
+            day: -3,
+            hour: -2,
+            minute: -30,
+            second: -5,
+            millisecond: -250,
+        });
+    });
+
+    it('dateDiffDuration only uses the requested units', () => {
+        const start = new Date('2024-01-01T00:00:00.000Z');
+        const end = new Date('2024-01-17T12:00:00.000Z');
+        expect(dateDiffDuration(start, end, { utc: true, units: ['week', 'hour'] })).toEqual({ week: 2, hour: 60 });
+    });
+
+    it('treats quarters as three months', () => {
+        expect(formatDuration({ quarter: 1, month: 1 })).toBe('P4M');
+        expect(normalizeDuration({ quarter: 5 })).toEqual({ year: 1, month: 3 });
+        expect(modifyDate({ quarter: 1 }, new Date('2024-01-15T00:00:00.000Z'), { utc: true }).toISOString()).toBe('2024-04-15T00:00:00.000Z');
+    });
+
+    it('formatDurationMs renders compact durations', () => {
+        expect(formatDurationMs(2 * 3_600_000 + 30 * 60_000 + 5_000)).toBe('2h 30m 5s');
+        expect(formatDurationMs(1_500)).toBe('1s 500ms');
+        expect(formatDurationMs(0)).toBe('0ms');
+        expect(formatDurationMs(-90_000)).toBe('-1m 30s');
+        expect(formatDurationMs(36 * 3_600_000, { separator: '' })).toBe('1d12h');
+    });
+
+    it('formatDurationMs rounds the last unit kept by maxUnits', () => {
+        expect(formatDurationMs(2 * 3_600_000 + 30 * 60_000 + 45_000, { maxUnits: 2 })).toBe('2h 31m');
+        expect(formatDurationMs(59 * 60_000 + 59_600, { maxUnits: 2 })).toBe('1h');
+        expect(formatDurationMs(1_234, { maxUnits: 1 })).toBe('1s');
+        expect(() => formatDurationMs(1, { maxUnits: 0 })).toThrow(/positive integer/);
+        expect(() => formatDurationMs(Infinity)).toThrow();
+    });
+
+    it('parseDurationMs reads compact durations', () => {
+        expect(parseDurationMs('2h 30m 5s')).toEqual({ ok: true, value: 9_005_000 });
+        expect(parseDurationMs('1.5d')).toEqual({ ok: true, value: 129_600_000 });
+        expect(parseDurationMs('1m30s')).toEqual({ ok: true, value: 90_000 });
+        expect(parseDurationMs('250 MS')).toEqual({ ok: true, value: 250 });
+        expect(parseDurationMs('-1h')).toEqual({ ok: true, value: -3_600_000 });
+        expect(parseDurationMs(formatDurationMs(93_784_005))).toEqual({ ok: true, value: 93_784_005 });
+    });
+
+    it('parseDurationMs returns errors for invalid input', () => {
+        for (const value of ['', '15', '2 hours', 'h', '1h -5m']) {
+            const result = parseDurationMs(value);
+            expect(result.ok).toBe(false);
+        }
+    });
+});
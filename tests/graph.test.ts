@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+
+import { createGraph, isReachable, shortestPath, topoLayers, topoSort, transitiveDependencies, transitiveDependents } from '../src/utils/graph.js';
+
+const build = new Map([
+    ['app', ['ui', 'api']],
+    ['ui', ['core']],
+    ['api', ['core', 'db']],
+    ['db', []],
+]);
+
+describe('graph utilities', () => {
+    it('topoSort puts dependencies first', () => {
+        const result = topoSort(build);
+        expect(result).toEqual({ ok: true, value: ['core', 'db', 'ui', 'api', 'app'] });
+    });
+
+    it('topoLayers groups nodes that can run in parallel', () => {
+        expect(topoLayers(build)).toEqual({ ok: true, value: [['core', 'db'], ['ui', 'api'], ['app']] });
+        expect(topoLayers(new Map())).toEqual({ ok: true, value: [] });
+    });
+
+    it('reports the cycle path', () => {
+        const result = topoSort(
+            new Map([
+                ['a', ['b']],
+                ['b', ['c']],
+                ['c', ['a']],
+                ['d', []],
+            ]),
+        );
+        expect(result.ok).toBe(false);
+        if (!result.ok) {
+            expect(result.error.cycle).toEqual(['a', 'b', 'c', 'a']);
+            expect(result.error.message).toBe('Dependency cycle detected: a -> b -> c -> a');
+        }
+
+        const self = topoLayers(new Map([['x', ['x']]]));
+        expect(self.ok ? [] : self.error.cycle).toEqual(['x', 'x']);
+    });
+
+    it('createGraph builds adjacency lists from nodes', () => {
+        const plugins = [
+            { name: 'auth', requires: ['http'] },
+            { name: 'http', requires: [] as string[] },
+        ];
+        const graph = createGraph(plugins, (plugin) => plugins.filter((other) => plugin.requires.includes(other.name)));
+        const order = topoSort(graph);
+        expect(order.ok ? order.value.map((plugin) => plugin.name) : []).toEqual(['http', 'auth']);
+    });
+
+    it('answers reachability queries', () => {
+        expect(isReachable(build, 'app', 'db')).toBe(true);
+        expect(isReachable(build, 'ui', 'db')).toBe(false);
+        expect(isReachable(build, 'db', 'db')).toBe(true);
+    });
+
+    it('lists transitive dependencies and dependents nearest first', () => {
+        expect(transitiveDependencies(build, 'app')).toEqual(['ui', 'api', 'core', 'db']);
+        expect(transitiveDependents(build, 'core')).toEqual(['ui', 'api', 'app']);
+        expect(transitiveDependents(build, 'app')).toEqual([]);
+    });
+
+    it('shortestPath follows the fewest edges', () => {
+        const graph = new Map([
+            ['a', ['b', 'c']],
+            ['b', ['d']],
+            ['c', ['e']],
+            ['d', ['e']],
+        ]);
+        expect(shortestPath(graph, 'a', 'e')).toEqual(['a', 'c', 'e']);
+        expect(shortestPath(graph, 'a', 'a')).toEqual(['a']);
+        expect(shortestPath(graph, 'e', 'a')).toBeUndefined();
+    });
+
+    it('shortestPath walks through null, undefined and NaN nodes', () => {
+        const graph = new Map<string | number | null | undefined, Array<string | number | null | undefined>>([
+            ['a', [undefined]],
+            [undefined, [null]],
+            [null, [NaN]],
+            [NaN, ['b']],
+        ]);
+        expect(shortestPath(graph, 'a', 'b')).toEqual(['a', undefined, null, NaN, 'b']);
+        expect(shortestPath(graph, undefined, NaN)).toEqual([undefined, null, NaN]);
+        expect(shortestPath(graph, NaN, NaN)).toEqual([NaN]);
+    });
+});
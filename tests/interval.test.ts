@@ -0,0 +1,99 @@
+import { describe, expect, it } from 'vitest';
+
+import { contains, createInterval, eachOf, intersect, mergeIntervals, overlaps, splitBy } from '../src/utils/interval.js';
+
+const at = (iso: string): Date => new Date(iso);
+const span = (start: string, end: string) => createInterval(at(start), at(end));
+const toIso = (dates: Date[]): string[] => dates.map((date) => date.toISOString());
+
+describe('interval utilities', () => {
+    it('createInterval rejects reversed bounds', () => {
+        expect(() => createInterval(at('2024-01-02T00:00:00.000Z'), at('2024-01-01T00:00:00.000Z'))).toThrow(/must not be before/);
+    });
+
+    it('eachOf lists every unit start overlapping the interval', () => {
+        const interval = span('2024-01-30T12:00:00.000Z', '2024-02-02T00:00:00.000Z');
+        expect(toIso(eachOf(interval, 'day', { utc: true }))).toEqual([
+            '2024-01-30T00:00:00.000Z',
+            '2024-01-31T00:00:00.000Z',
+            '2024-02-01T00:00:00.000Z',
+        ]);
+        expect(toIso(eachOf(interval, 'month', { utc: true }))).toEqual(['2024-01-01T00:00:00.000Z', '2024-02-01T00:00:00.000Z']);
+        expect(eachOf(span('2024-01-30T12:00:00.000Z', '2024-01-30T12:00:00.000Z'), 'day', { utc: true })).toEqual([]);
+    });
+
+    it('eachOf honors weekStartsOn and timeZone', () => {
+        const interval = span('2024-06-05T00:00:00.000Z', '2024-06-20T00:00:00.000Z');
+        expect(toIso(eachOf(interval, 'week', { utc: true, weekStartsOn: 1 }))).toEqual([
+            '2024-06-03T00:00:00.000Z',
+            '2024-06-10T00:00:00.000Z',
+            '2024-06-17T00:00:00.000Z',
+        ]);
+
+        const acrossDst = span('2024-03-30T00:00:00.000Z', '2024-04-01T00:00:00.000Z');
+        expect(toIso(eachOf(acrossDst, 'day', { timeZone: 'Europe/Lisbon' }))).toEqual([
+            '2024-03-30T00:00:00.000Z',
+            '2024-03-31T00:00:00.000Z',
+            '2024-03-31T23:00:00.000Z',
+        ]);
+    });
+
+    it('eachOf keeps day starts aligned after a DST change skipping midnight', () => {
+        // Santiago skips from 00:00 to 01:00 on 2024-09-08, so that day alone starts at 01:00 local time.
+        const interval = span('2024-09-07T12:00:00.000Z', '2024-09-10T12:00:00.000Z');
+        expect(toIso(eachOf(interval, 'day', { timeZone: 'America/Santiago' }))).toEqual([
+            '2024-09-07T04:00:00.000Z',
+            '2024-09-08T04:00:00.000Z',
+            '2024-09-09T03:00:00.000Z',
+            '2024-09-10T03:00:00.000Z',
+        ]);
+        expect(splitBy(interval, 'day', { timeZone: 'America/Santiago' })[1]).toEqual({
+            start: at('2024-09-08T04:00:00.000Z'),
+            end: at('2024-09-09T03:00:00.000Z'),
+        });
+    });
+
+    it('splitBy cuts the interval at unit boundaries', () => {
+        const interval = span('2024-01-30T12:00:00.000Z', '2024-02-01T06:00:00.000Z');
+        expect(splitBy(interval, 'day', { utc: true }).map(({ start, end }) => [start.toISOString(), end.toISOString()])).toEqual([
+            ['2024-01-30T12:00:00.000Z', '2024-01-31T00:00:00.000Z'],
+            ['2024-01-31T00:00:00.000Z', '2024-02-01T00:00:00.000Z'],
+            ['2024-02-01T00:00:00.000Z', '2024-02-01T06:00:00.000Z'],
+        ]);
+    });
+
+    it('overlaps treats intervals as half-open', () => {
+        const a = span('2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z');
+        expect(overlaps(a, span('2024-01-01T12:00:00.000Z', '2024-01-03T00:00:00.000Z'))).toBe(true);
+        expect(overlaps(a, span('2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z'))).toBe(false);
+    });
+
+    it('contains checks dates and nested intervals', () => {
+        const interval = span('2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z');
+        expect(contains(interval, at('2024-01-01T00:00:00.000Z'))).toBe(true);
+        expect(contains(interval, at('2024-01-02T00:00:00.000Z'))).toBe(false);
+        expect(contains(interval, span('2024-01-01T06:00:00.000Z', '2024-01-02T00:00:00.000Z'))).toBe(true);
+        expect(contains(interval, span('2024-01-01T06:00:00.000Z', '2024-01-02T00:00:00.001Z'))).toBe(false);
+    });
+
+    it('intersect returns the shared span', () => {
+        const a = span('2024-01-01T00:00:00.000Z', '2024-01-03T00:00:00.000Z');
+        const b = span('2024-01-02T00:00:00.000Z', '2024-01-04T00:00:00.000Z');
+        expect(intersect(a, b)).toEqual(span('2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z'));
+        expect(intersect(a, span('2024-01-03T00:00:00.000Z', '2024-01-04T00:00:00.000Z'))).toBeUndefined();
+    });
+
+    it('mergeIntervals coalesces overlapping and touching intervals without mutating the input', () => {
+        const input = [
+            span('2024-01-05T00:00:00.000Z', '2024-01-06T00:00:00.000Z'),
+            span('2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z'),
+            span('2024-01-02T00:00:00.000Z', '2024-01-03T00:00:00.000Z'),
+            span('2024-01-01T12:00:00.000Z', '2024-01-02T12:00:00.000Z'),
+        ];
+        expect(mergeIntervals(input)).toEqual([
+            span('2024-01-01T00:00:00.000Z', '2024-01-03T00:00:00.000Z'),
+            span('2024-01-05T00:00:00.000Z', '2024-01-06T00:00:00.000Z'),
+        ]);
+        expect(input[1]).toEqual(span('2024-01-01T00:00:00.000Z', '2024-01-02T00:00:00.000Z'));
+    });
+});
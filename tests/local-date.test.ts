@@ -0,0 +1,113 @@
+import { afterEach, describe, expect, it } from 'vitest';
+
+import { createFixedClock, resetClock, setClock } from '../src/utils/clock.js';
+import {
+    addToLocalDate,
+    compareLocalDates,
+    createLocalDate,
+    formatLocalDate,
+    fromLocalDate,
+    isSameLocalDate,
+    localDateDiff,
+    parseLocalDate,
+    startOfLocalDate,
+    toLocalDate,
+    today,
+} from '../src/utils/local-date.js';
+
+const date = (value: string) => {
+    const result = parseLocalDate(value);
+    if (!result.ok) {
+        throw result.error;
+    }
+    return result.value;
+};
+
+describe('local date utilities', () => {
+    afterEach(() => {
+        resetClock();
+    });
+
+    it('createLocalDate validates and freezes the fields', () => {
+        const value = createLocalDate(2024, 2, 29);
+        expect(value).toEqual({ year: 2024, month: 2, day: 29 });
+        expect(Object.isFrozen(value)).toBe(true);
+        expect(() => createLocalDate(2023, 2, 29)).toThrow(/day 29 is out of range/);
+        expect(() => createLocalDate(2024, 13, 1)).toThrow(/month 13/);
+        expect(() => createLocalDate(2024, 1.5, 1)).toThrow(/integers/);
+    });
+
+    it('parseLocalDate and formatLocalDate round-trip YYYY-MM-DD', () => {
+        expect(parseLocalDate('1990-07-04')).toEqual({ ok: true, value: { year: 1990, month: 7, day: 4 } });
+        expect(formatLocalDate(date('0099-01-05'))).toBe('0099-01-05');
+        expect(parseLocalDate('2024-02-30').ok).toBe(false);
+        expect(parseLocalDate('2024-2-3').ok).toBe(false);
+        expect(parseLocalDate('2024-02-03T00:00:00Z').ok).toBe(false);
+    });
+
+    it('compareLocalDates orders chronologically', () => {
+        expect(compareLocalDates(date('2024-01-31'), date('2024-02-01'))).toBe(-1);
+        expect(compareLocalDates(date('2025-01-01'), date('2024-12-31'))).toBe(1);
+        expect(compareLocalDates(date('2024-05-05'), createLocalDate(2024, 5, 5))).toBe(0);
+    });
+
+    it('converts to and from Date at a chosen zone', () => {
+        const instant = new Date('2024-03-10T02:30:00.000Z');
+        expect(toLocalDate(instant, { utc: true })).toEqual({ year: 2024, month: 3, day: 10 });
+        expect(toLocalDate(instant, { timeZone: 'America/New_York' })).toEqual({ year: 2024, month: 3, day: 9 });
+        expect(toLocalDate(instant, { timeZone: 'Asia/Kolkata' })).toEqual({ year: 2024, month: 3, day: 10 });
+
+        expect(fromLocalDate(date('2024-07-04'), { utc: true }).toISOString()).toBe('2024-07-04T00:00:00.000Z');
+        expect(fromLocalDate(date('2024-07-04'), { timeZone: 'America/New_York' }).toISOString()).toBe('2024-07-04T04:00:00.000Z');
+    });
+
+    it('round-trips a birthday through Date in any zone', () => {
+        const birthday = date('1990-07-04');
+        for (const timeZone of ['Pacific/Kiritimati', 'America/Los_Angeles', 'Europe/Lisbon']) {
+            expect(toLocalDate(fromLocalDate(birthday, { timeZone }), { timeZone })).toEqual(birthday);
+        }
+        expect(toLocalDate(fromLocalDate(birthday))).toEqual(birthday);
+    });
+
+    it('today reads the installed clock', () => {
+        setClock(createFixedClock(new Date('2024-12-31T23:30:00.000Z')));
+        expect(today({ utc: true })).toEqual({ year: 2024, month: 12, day: 31 });
+        expect(today({ timeZone: 'Europe/Berlin' })).toEqual({ year: 2025, month: 1, day: 1 });
+    });
+
+    it('addToLocalDate shifts by calendar units and clamps month ends', () => {
+        expect(formatLocalDate(addToLocalDate(date('2024-02-28'), 2, 'day'))).toBe('2024-03-01');
+        expect(formatLocalDate(addToLocalDate(date('2024-01-03'), -1, 'week'))).toBe('2023-12-27');
+        expect(formatLocalDate(addToLocalDate(date('2024-01-31'), 1, 'month'))).toBe('2024-02-29');
+        expect(formatLocalDate(addToLocalDate(date('2023-01-31'), 1, 'month'))).toBe('2023-02-28');
+        expect(formatLocalDate(addToLocalDate(date('2024-11-30'), 1, 'quarter'))).toBe('2025-02-28');
+        expect(formatLocalDate(addToLocalDate(date('2024-02-29'), -1, 'year'))).toBe('2023-02-28');
+        expect(() => addToLocalDate(date('2024-01-01'), 0.5, 'day')).toThrow();
+    });
+
+    it('localDateDiff counts whole units', () => {
+        expect(localDateDiff(date('2024-02-28'), date('2024-03-01'), 'day')).toBe(2);
+        expect(localDateDiff(date('2024-03-01'), date('2024-02-28'), 'day')).toBe(-2);
+        expect(localDateDiff(date('2024-01-01'), date('2024-01-14'), 'week')).toBe(1);
+        expect(localDateDiff(date('2024-01-31'), date('2024-02-29'), 'month')).toBe(1);
+        expect(localDateDiff(date('2024-01-31'), date('2024-02-28'), 'month')).toBe(0);
+        expect(localDateDiff(date('1990-07-04'), date('2024-07-03'), 'year')).toBe(33);
+        expect(localDateDiff(date('1990-07-04'), date('2024-07-04'), 'year')).toBe(34);
+        expect(localDateDiff(date('2024-07-04'), date('1990-07-05'), 'year')).toBe(-33);
+        expect(localDateDiff(date('2024-01-15'), date('2024-07-14'), 'quarter')).toBe(1);
+    });
+
+    it('startOfLocalDate and isSameLocalDate round to calendar units', () => {
+        const value = date('2024-05-15');
+        expect(formatLocalDate(startOfLocalDate(value, 'week'))).toBe('2024-05-12');
+        expect(formatLocalDate(startOfLocalDate(value, 'week', { weekStartsOn: 1 }))).toBe('2024-05-13');
+        expect(formatLocalDate(startOfLocalDate(value, 'month'))).toBe('2024-05-01');
+        expect(formatLocalDate(startOfLocalDate(value, 'quarter'))).toBe('2024-04-01');
+        expect(formatLocalDate(startOfLocalDate(value, 'year'))).toBe('2024-01-01');
+
+        expect(isSameLocalDate(value, date('2024-05-15'))).toBe(true);
+        expect(isSameLocalDate(value, date('2024-06-30'), 'quarter')).toBe(true);
+        expect(isSameLocalDate(date('2024-05-12'), date('2024-05-13'), 'week')).toBe(true);
+        expect(isSameLocalDate(date('2024-05-12'), date('2024-05-13'), 'week', { weekStartsOn: 1 })).toBe(false);
+    });
+});
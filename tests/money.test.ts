@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vitest';
+
+import { decimalToString } from '../src/utils/decimal.js';
+import {
+    addMoney,
+    allocate,
+    compareMoney,
+    formatMoney,
+    getMinorUnits,
+    money,
+    moneyFromMinor,
+    multiplyMoney,
+    subtractMoney,
+} from '../src/utils/money.js';
+import type { Money } from '../src/utils/money.js';
+
+const amounts = (values: Money[]) => values.map((value) => decimalToString(value.amount));
+
+describe('money utilities', () => {
+    it('getMinorUnits follows ISO 4217', () => {
+        expect(getMinorUnits('EUR')).toBe(2);
+        expect(getMinorUnits('JPY')).toBe(0);
+        expect(getMinorUnits('KWD')).toBe(3);
+        expect(() => getMinorUnits('eur')).toThrow(/Invalid currency code/);
+    });
+
+    it('money rounds to the currency minor units', () => {
+        expect(decimalToString(money(1.005, 'USD').amount)).toBe('1.01');
+        expect(decimalToString(money('2.125', 'USD', 'half-even').amount)).toBe('2.12');
+        expect(decimalToString(money('1234.5', 'JPY').amount)).toBe('1235');
+        expect(decimalToString(money(3, 'BHD').amount)).toBe('3.000');
+        expect(decimalToString(moneyFromMinor(1999, 'USD').amount)).toBe('19.99');
+    });
+
+    it('adds, subtracts and compares amounts of the same currency', () => {
+        const price = money('19.99', 'EUR');
+        const discount = money('5', 'EUR');
+        expect(decimalToString(addMoney(price, discount).amount)).toBe('24.99');
+        expect(decimalToString(subtractMoney(price, discount).amount)).toBe('14.99');
+        expect(compareMoney(price, discount)).toBe(1);
+        expect(() => addMoney(price, money(1, 'USD'))).toThrow('Cannot combine EUR with USD');
+    });
+
+    it('multiplyMoney rounds back to minor units', () => {
+        expect(decimalToString(multiplyMoney(money('19.99', 'EUR'), '0.23').amount)).toBe('4.60');
+        expect(decimalToString(multiplyMoney(money('0.05', 'EUR'), '0.5', 'half-even').amount)).toBe('0.02');
+    });
+
+    it('allocate splits amounts without losing minor units', () => {
+        expect(amounts(allocate(money(100, 'USD'), [1, 1, 1]))).toEqual(['33.34', '33.33', '33.33']);
+        expect(amounts(allocate(money('0.05', 'USD'), [3, 7]))).toEqual(['0.02', '0.03']);
+        expect(amounts(allocate(money('-10', 'USD'), [1, 2]))).toEqual(['-3.33', '-6.67']);
+        expect(amounts(allocate(money(10, 'JPY'), ['0.5', '0.25', '0.25', 0]))).toEqual(['5', '3', '2', '0']);
+        expect(() => allocate(money(1, 'USD'), [0, 0])).toThrow(/all be zero/);
+        expect(() => allocate(money(1, 'USD'), [1, -1])).toThrow(/negative/);
+    });
+
+    it('formatMoney formats through formatNumber in the currency', () => {
+        expect(formatMoney(money('1234.5', 'USD'), 'en-US')).toBe('$1,234.50');
+        expect(formatMoney(money('1234', 'JPY'), 'en-US')).toBe('¥1,234');
+        expect(formatMoney(money('1234.5', 'EUR'), 'en-US', { currencyDisplay: 'code' })).toMatch(/^EUR\s1,234\.50$/);
+    });
+});
@@ -1,6 +1,6 @@
 import { describe, expect, it } from 'vitest';
 
-import { clamp, formatNumber, mean, roundTo, sum, toPercentage } from '../src/utils/number.js';
+import { clamp, formatBytes, formatNumber, mean, parseBytes, roundTo, sum, toPercentage } from '../src/utils/number.js';
 
 describe('number utilities', () => {
     it('clamp limits numbers to the provided range', () => {
@@ -32,4 +32,53 @@ describe('number utilities', () => {
     it('formatNumber delegates to Intl.NumberFormat', () => {
         expect(formatNumber(1234.5, 'en-US', { minimumFractionDigits: 1 })).toBe('1,234.5');
     });
+
+    it('formatNumber formats bigints and numeric strings exactly', () => {
+        expect(formatNumber(12345678901234567890n, 'en-US')).toBe('12,345,678,901,234,567,890');
+        expect(formatNumber('0.1', 'en-US', { maximumFractionDigits: 20 })).toBe('0.1');
+    });
+
+    it('formatBytes picks the largest fitting SI or IEC unit', () => {
+        expect(formatBytes(512)).toBe('512 B');
+        expect(formatBytes(1_500_000_000)).toBe('1.5 GB');
+        expect(formatBytes(512 * 1024, { standard: 'iec' })).toBe('512 KiB');
+        expect(formatBytes(999_960)).toBe('1 MB');
+        expect(formatBytes(-2048, { standard: 'iec' })).toBe('-2 KiB');
+        expect(formatBytes(1_234_567, { maximumFractionDigits: 2, locales: 'de-DE' })).toBe('1,23 MB');
+    });
+
+    it('formatBytes output parses back with parseBytes', () => {
+        expect(formatBytes(1000, { standard: 'iec' })).toBe('1000 B');
+        expect(formatBytes(1023 * 1024, { standard: 'iec', locales: 'en-US' })).toBe('1023 KiB');
+        for (const bytes of [0, 1000, 1023, 1000 * 1024, 1_048_576, 5 * 1024 ** 4]) {
+            expect(parseBytes(formatBytes(bytes, { standard: 'iec', maximumFractionDigits: 0 }))).toEqual({ ok: true, value: bytes });
+        }
+        for (const bytes of [999, 1000, 1_500_000, 7 * 1000 ** 3]) {
+            expect(parseBytes(formatBytes(bytes, { locales: 'en-US' }))).toEqual({ ok: true, value: bytes });
+        }
+    });
+
+    it('formatBytes rejects non-finite counts', () => {
+        expect(() => formatBytes(Number.NaN)).toThrow(/finite/);
+        expect(() => formatBytes(Number.POSITIVE_INFINITY)).toThrow(/finite/);
+        expect(() => formatBytes(Number.NEGATIVE_INFINITY, { standard: 'iec' })).toThrow(/finite/);
+    });
+
+    it('parseBytes reads SI and IEC units', () => {
+        expect(parseBytes('1.5 GB')).toEqual({ ok: true, value: 1_500_000_000 });
+        expect(parseBytes('512KiB')).toEqual({ ok: true, value: 524_288 });
+        expect(parseBytes('1.1 KB')).toEqual({ ok: true, value: 1_100 });
+        expect(parseBytes('42')).toEqual({ ok: true, value: 42 });
+        expect(parseBytes(formatBytes(3 * 1024 ** 3, { standard: 'iec' }))).toEqual({ ok: true, value: 3 * 1024 ** 3 });
+        expect(parseBytes('12 parsecs').ok).toBe(false);
+        expect(parseBytes('GB').ok).toBe(false);
+    });
+
+    it('parseBytes rejects bit units instead of reading them as bytes', () => {
+        expect(parseBytes('10 Mb').ok).toBe(false);
+        expect(parseBytes('1.1 kb').ok).toBe(false);
+        expect(parseBytes('8 b').ok).toBe(false);
+        expect(parseBytes('4 gib').ok).toBe(false);
+        expect(parseBytes('4 GIB')).toEqual({ ok: true, value: 4 * 1024 ** 3 });
+    });
 });
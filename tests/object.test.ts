@@ -1,6 +1,7 @@
 import { describe, expect, it } from 'vitest';
 
-import { clone, entriesToObject, isShallowEqual, omit, pick } from '../src/utils/object.js';
+import type { DeepEqualOptions } from '../src/utils/object.js';
+import { clone, deepClone, entriesToObject, isDeepEqual, isShallowEqual, omit, pick } from '../src/utils/object.js';
 
 describe('object utilities', () => {
     it('clone copies the object overriding the provided props', () => {
@@ -8,12 +9,188 @@ describe('object utilities', () => {
         expect(clone(object, { b: 3, c: 4 })).toEqual({ a: 1, b: 3, c: 4 });
     });
 
+    it('deepClone copies nested data without sharing it', () => {
+        const original = {
+            user: { name: 'Ada', tags: ['x'] },
+            createdAt: new Date(0),
+            pattern: /a+/gi,
+            lookup: new Map([['k', { n: 1 }]]),
+            members: new Set([1, 2]),
+            bytes: new Uint8Array([1, 2, 3]),
+        };
+        const copy = deepClone(original);
+
+        expect(copy).toEqual(original);
+        copy.user.tags.push('y');
+        copy.lookup.get('k')!.n = 2;
+        copy.bytes[0] = 9;
+        copy.createdAt.setTime(1);
+        expect(original.user.tags).toEqual(['x']);
+        expect(original.lookup.get('k')).toEqual({ n: 1 });
+        expect(original.bytes[0]).toBe(1);
+        expect(original.createdAt.getTime()).toBe(0);
+        expect(copy.pattern).not.toBe(original.pattern);
+    });
+
+    it('deepClone preserves cyclic and shared references', () => {
+        const shared = { n: 1 };
+        const original: { self?: unknown; a: object; b: object; fn: () => number } = { a: shared, b: shared, fn: () => 1 };
+        original.self = original;
+        const copy = deepClone(original);
+
+        expect(copy.self).toBe(copy);
+        expect(copy.a).toBe(copy.b);
+        expect(copy.a).not.toBe(shared);
+        expect(copy.fn).toBe(original.fn);
+
+        const buffer = new ArrayBuffer(4);
+        const views = deepClone([new Uint8Array(buffer), new DataView(buffer, 2)]);
+        views[1]!.setUint8(0, 7);
+        expect(views[0]![2]).toBe(7);
+        expect(new Uint8Array(buffer)[2]).toBe(0);
+    });
+
+    it('deepClone keeps class-instance prototypes or rejects them', () => {
+        class Point {
+            constructor(
+                public x: number,
+                public y: number,
+            ) {}
+            length() {
+                return Math.hypot(this.x, this.y);
+            }
+        }
+
+        const copy = deepClone({ point: new Point(3, 4), error: new Error('boom') });
+        expect(copy.point).toBeInstanceOf(Point);
+        expect(copy.point.length()).toBe(5);
+        expect(copy.error).toBeInstanceOf(Error);
+        expect(copy.error.message).toBe('boom');
+
+        expect(() => deepClone({ point: new Point(1, 1) }, { instances: 'reject' })).toThrow('Cannot deep clone an instance of Point');
+    });
+
+    it('deepClone treats subclasses of built-ins as class instances', () => {
+        class Registry extends Map<string, { n: number }> {
+            label = 'registry';
+        }
+        class Stamp extends Date {}
+
+        const registry = new Registry([['a', { n: 1 }]]);
+        const copy = deepClone({ registry, stamp: new Stamp(0) });
+
+        expect(copy.registry).toBeInstanceOf(Registry);
+        expect(copy.registry.label).toBe('registry');
+        expect(copy.registry.get('a')).toEqual({ n: 1 });
+        expect(copy.registry.get('a')).not.toBe(registry.get('a'));
+        expect(copy.stamp).toBeInstanceOf(Stamp);
+        expect(copy.stamp.getTime()).toBe(0);
+
+        expect(() => deepClone(registry, { instances: 'reject' })).toThrow('Cannot deep clone an instance of Registry');
+        expect(() => deepClone([new Stamp(0)], { instances: 'reject' })).toThrow('Cannot deep clone an instance of Stamp');
+    });
+
+    it('deepClone copies boxed primitives', () => {
+        const copy = deepClone({ count: new Number(1), label: new String('a'), flag: new Boolean(false) });
+
+        expect(copy.count).toBeInstanceOf(Number);
+        expect(copy.count.valueOf()).toBe(1);
+        expect(copy.label.valueOf()).toBe('a');
+        expect(copy.flag.valueOf()).toBe(false);
+        expect(deepClone(new Number(2), { instances: 'reject' }).valueOf()).toBe(2);
+    });
+
+    it('deepClone keeps null prototypes and symbol keys', () => {
+        const key = Symbol('key');
+        const original = Object.assign(Object.create(null) as Record<PropertyKey, unknown>, { a: 1, [key]: { b: 2 } });
+        const copy = deepClone(original);
+
+        expect(Object.getPrototypeOf(copy)).toBeNull();
+        expect(copy[key]).toEqual({ b: 2 });
+        expect(copy[key]).not.toBe(original[key]);
+    });
+
     it('isShallowEqual compares only first-level keys and values', () => {
         expect(isShallowEqual({ a: 1 }, { a: 1 })).toBe(true);
         expect(isShallowEqual({ a: 1 }, { a: 2 })).toBe(false);
         expect(isShallowEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
     });
 
+    it('isDeepEqual compares nested objects and arrays', () => {
+        expect(isDeepEqual({ a: [1, { b: 2 }], c: 'x' }, { c: 'x', a: [1, { b: 2 }] })).toBe(true);
+        expect(isDeepEqual({ a: [1, { b: 2 }] }, { a: [1, { b: 3 }] })).toBe(false);
+        expect(isDeepEqual([1, 2], [1, 2, 3])).toBe(false);
+        expect(isDeepEqual({ a: 1 }, { a: 1, b: 2 })).toBe(false);
+        expect(isDeepEqual([1], { 0: 1, length: 1 })).toBe(false);
+        expect(isDeepEqual(NaN, NaN)).toBe(true);
+        expect(isDeepEqual(null, {})).toBe(false);
+    });
+
+    it('isDeepEqual handles built-in types', () => {
+        expect(isDeepEqual(new Date(0), new Date(0))).toBe(true);
+        expect(isDeepEqual(new Date(0), new Date(1))).toBe(false);
+        expect(isDeepEqual(/a/gi, /a/gi)).toBe(true);
+        expect(isDeepEqual(/a/g, /a/i)).toBe(false);
+        expect(isDeepEqual(new Map([['a', { n: 1 }]]), new Map([['a', { n: 1 }]]))).toBe(true);
+        expect(isDeepEqual(new Map([['a', 1]]), new Map([['b', 1]]))).toBe(false);
+        expect(isDeepEqual(new Set([1, { n: 1 }]), new Set([{ n: 1 }, 1]))).toBe(true);
+        expect(isDeepEqual(new Set([{ n: 1 }]), new Set([{ n: 2 }]))).toBe(false);
+        expect(isDeepEqual(new Float64Array([1, NaN]), new Float64Array([1, NaN]))).toBe(true);
+        expect(isDeepEqual(new Uint8Array([1, 2]), new Int8Array([1, 2]))).toBe(false);
+        expect(isDeepEqual(new Uint8Array([1, 2]).buffer, new Uint8Array([1, 2]).buffer)).toBe(true);
+    });
+
+    it('isDeepEqual supports cyclic references', () => {
+        type Node = { name: string; self?: Node };
+        const a: Node = { name: 'a' };
+        const b: Node = { name: 'a' };
+        a.self = a;
+        b.self = b;
+        expect(isDeepEqual(a, b)).toBe(true);
+
+        const c: Node = { name: 'a', self: { name: 'a' } };
+        expect(isDeepEqual(a, c)).toBe(false);
+    });
+
+    it('isDeepEqual can ignore keys and undefined properties', () => {
+        expect(isDeepEqual({ id: 1, meta: { updatedAt: 1 } }, { id: 1, meta: { updatedAt: 2 } }, { ignoreKeys: ['updatedAt'] })).toBe(true);
+        expect(isDeepEqual({ a: 1, b: undefined }, { a: 1 })).toBe(false);
+        expect(isDeepEqual({ a: 1, b: undefined }, { a: 1 }, { ignoreUndefined: true })).toBe(true);
+    });
+
+    it('isDeepEqual compares errors and boxed primitives by value', () => {
+        expect(isDeepEqual(new Error('a'), new Error('a'))).toBe(true);
+        expect(isDeepEqual(new Error('a'), new Error('b'))).toBe(false);
+        expect(isDeepEqual(new TypeError('a'), new RangeError('a'))).toBe(false);
+        expect(isDeepEqual(Object.assign(new Error('a'), { code: 1 }), Object.assign(new Error('a'), { code: 2 }))).toBe(false);
+        expect(isDeepEqual(new Number(1), new Number(1))).toBe(true);
+        expect(isDeepEqual(new Number(1), new Number(2))).toBe(false);
+        expect(isDeepEqual(new Number(NaN), new Number(NaN))).toBe(true);
+        expect(isDeepEqual(new String('a'), new String('b'))).toBe(false);
+        expect(isDeepEqual(new Boolean(true), new Boolean(false))).toBe(false);
+    });
+
+    it('isDeepEqual uses per-type comparators', () => {
+        class Version {
+            constructor(
+                public major: number,
+                public label: string,
+            ) {}
+        }
+        const options: DeepEqualOptions = { comparators: [[Version, (a: Version, b: Version) => a.major === b.major]] };
+
+        expect(isDeepEqual({ v: new Version(1, 'one') }, { v: new Version(1, 'uno') }, options)).toBe(true);
+        expect(isDeepEqual({ v: new Version(1, 'one') }, { v: new Version(2, 'one') }, options)).toBe(false);
+        expect(isDeepEqual(new Version(1, 'one'), new Version(1, 'uno'))).toBe(false);
+    });
+
+    it('isDeepEqual lets a custom comparator decide', () => {
+        const compare = (a: unknown, b: unknown) =>
+            typeof a === 'string' && typeof b === 'string' ? a.toLowerCase() === b.toLowerCase() : undefined;
+        expect(isDeepEqual({ name: 'Ada', tags: ['X'] }, { name: 'ADA', tags: ['x'] }, { compare })).toBe(true);
+        expect(isDeepEqual({ name: 'Ada', age: 1 }, { name: 'ADA', age: 2 }, { compare })).toBe(false);
+    });
+
     it('pick keeps only explicitly requested keys', () => {
         expect(pick({ a: 1, b: 2, c: 3 }, ['a', 'c'])).toEqual({ a: 1, c: 3 });
     });
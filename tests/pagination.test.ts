@@ -0,0 +1,65 @@
+import { describe, expect, it } from 'vitest';
+
+import { decodeCursor, encodeCursor, paginate } from '../src/utils/pagination.js';
+
+const items = Array.from({ length: 23 }, (_, index) => index + 1);
+
+describe('pagination utilities', () => {
+    it('paginate returns the page with its metadata', () => {
+        expect(paginate(items, { page: 1, pageSize: 10 })).toEqual({
+            items: [1, 2, 3, 4, 5, 6, 7, 8, 9, 10],
+            page: 1,
+            pageSize: 10,
+            total: 23,
+            pageCount: 3,
+            hasNext: true,
+            hasPrevious: false,
+        });
+
+        const last = paginate(items, { page: 3, pageSize: 10 });
+        expect(last.items).toEqual([21, 22, 23]);
+        expect(last.hasNext).toBe(false);
+        expect(last.hasPrevious).toBe(true);
+    });
+
+    it('paginate returns empty pages past the end', () => {
+        expect(paginate(items, { page: 5, pageSize: 10 }).items).toEqual([]);
+        expect(paginate([], { page: 1, pageSize: 10 })).toMatchObject({ items: [], pageCount: 0, hasNext: false });
+    });
+
+    it('paginate rejects invalid pages', () => {
+        expect(() => paginate(items, { page: 0, pageSize: 10 })).toThrow('Invalid page 0 of size 10');
+        expect(() => paginate(items, { page: 1, pageSize: 2.5 })).toThrow('positive integers');
+    });
+
+    it('encodes URL-safe cursors that round-trip', () => {
+        const position = { createdAt: '2024-05-01T10:00:00Z', id: 'é?>>' };
+        const cursor = encodeCursor(position);
+
+        expect(cursor).toMatch(/^[A-Za-z0-9_-]+$/);
+        expect(decodeCursor(cursor)).toEqual({ ok: true, value: position });
+        expect(decodeCursor(encodeCursor(42))).toEqual({ ok: true, value: 42 });
+    });
+
+    it('encodeCursor rejects values without a JSON form', () => {
+        const circular: Record<string, unknown> = {};
+        circular.self = circular;
+
+        for (const value of [undefined, () => 1, Symbol('cursor'), 10n, { offset: 10n }, circular]) {
+            expect(() => encodeCursor(value)).toThrow(/not JSON-serializable/);
+        }
+        expect(() => encodeCursor(10n)).toThrow('Cannot encode a cursor from a value of type bigint that is not JSON-serializable');
+    });
+
+    it('decodeCursor rejects tampered cursors and unexpected shapes', () => {
+        expect(decodeCursor('not a cursor!').ok).toBe(false);
+        expect(decodeCursor('bm90IGpzb24').ok).toBe(false);
+
+        const isOffset = (value: unknown): value is { offset: number } =>
+            typeof value === 'object' && value !== null && typeof (value as { offset?: unknown }).offset === 'number';
+        expect(decodeCursor(encodeCursor({ offset: 20 }), isOffset)).toEqual({ ok: true, value: { offset: 20 } });
+
+        const result = decodeCursor(encodeCursor({ offset: 'x' }), isOffset);
+        expect(result.ok ? undefined : result.error.message).toMatch(/^Invalid cursor/);
+    });
+});
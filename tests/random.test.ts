@@ -0,0 +1,104 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { bucket, createRandom, pickRandom, randomBool, randomFloat, randomInt, sample, shuffle, weightedPick } from '../src/utils/random.js';
+
+const sequence = (values: number[]) => {
+    let index = 0;
+    return () => values[index++ % values.length] as number;
+};
+
+describe('random utilities', () => {
+    afterEach(() => {
+        vi.restoreAllMocks();
+    });
+
+    it('createRandom is deterministic per seed', () => {
+        const a = createRandom(42);
+        const b = createRandom(42);
+        const c = createRandom('42');
+        const first = Array.from({ length: 5 }, a);
+
+        expect(Array.from({ length: 5 }, b)).toEqual(first);
+        expect(Array.from({ length: 5 }, c)).not.toEqual(first);
+        expect(first.every((value) => value >= 0 && value < 1)).toBe(true);
+        expect(Array.from({ length: 3 }, createRandom('fixtures'))).toEqual(Array.from({ length: 3 }, createRandom('fixtures')));
+    });
+
+    it('createRandom spreads values uniformly', () => {
+        const random = createRandom(7);
+        const counts = [0, 0, 0, 0];
+        for (let index = 0; index < 4000; index += 1) {
+            counts[Math.floor(random() * 4)]! += 1;
+        }
+        expect(counts.every((count) => count > 900 && count < 1100)).toBe(true);
+    });
+
+    it('randomInt, randomFloat and randomBool map the generator output', () => {
+        const low = () => 0;
+        const high = () => 0.999999;
+        expect(randomInt(1, 6, low)).toBe(1);
+        expect(randomInt(1, 6, high)).toBe(6);
+        expect(() => randomInt(5, 1)).toThrow(/Invalid integer range/);
+        expect(randomFloat(10, 20, () => 0.25)).toBe(12.5);
+        expect(randomBool(0.3, () => 0.29)).toBe(true);
+        expect(randomBool(0.3, () => 0.3)).toBe(false);
+    });
+
+    it('defaults to Math.random', () => {
+        vi.spyOn(Math, 'random').mockReturnValue(0.5);
+        expect(randomInt(0, 9)).toBe(5);
+        expect(randomFloat()).toBe(0.5);
+        expect(pickRandom(['a', 'b', 'c'])).toBe('b');
+        expect(weightedPick(['a', 'b'], [1, 3])).toBe('b');
+    });
+
+    it('pickRandom returns undefined for empty arrays', () => {
+        expect(pickRandom([], createRandom(1))).toBeUndefined();
+        expect(pickRandom(['only'], createRandom(1))).toBe('only');
+    });
+
+    it('shuffle returns a permuted copy', () => {
+        const input = [1, 2, 3, 4, 5, 6, 7, 8];
+        const shuffled = shuffle(input, createRandom(3));
+        expect(input).toEqual([1, 2, 3, 4, 5, 6, 7, 8]);
+        expect([...shuffled].sort((a, b) => a - b)).toEqual(input);
+        expect(shuffled).toEqual(shuffle(input, createRandom(3)));
+        expect(shuffle([1, 2, 3], sequence([0.99, 0]))).toEqual([3, 2, 1]);
+    });
+
+    it('sample draws without replacement', () => {
+        const picked = sample([1, 2, 3, 4, 5], 3, createRandom(9));
+        expect(picked).toHaveLength(3);
+        expect(new Set(picked).size).toBe(3);
+        expect(sample([1, 2], 5, createRandom(9))).toHaveLength(2);
+        expect(sample([1, 2], 0)).toEqual([]);
+        expect(() => sample([1], -1)).toThrow(/non-negative integer/);
+    });
+
+    it('weightedPick follows the weights', () => {
+        expect(weightedPick(['a', 'b', 'c'], [1, 0, 1], () => 0.4)).toBe('a');
+        expect(weightedPick(['a', 'b', 'c'], [1, 0, 1], () => 0.6)).toBe('c');
+        expect(weightedPick(['a', 'b'], [0, 2], () => 0)).toBe('b');
+
+        const random = createRandom(11);
+        const hits = Array.from({ length: 2000 }, () => weightedPick(['rare', 'common'], [1, 9], random)).filter((item) => item === 'rare');
+        expect(hits.length).toBeGreaterThan(120);
+        expect(hits.length).toBeLessThan(280);
+
+        expect(() => weightedPick(['a'], [1, 2])).toThrow(/one weight per item/);
+        expect(() => weightedPick(['a'], [-1])).toThrow(/non-negative/);
+        expect(() => weightedPick(['a'], [0])).toThrow(/positive weight/);
+    });
+
+    it('bucket hashes keys into stable cohorts', () => {
+        expect(bucket('user-42', 10)).toBe(bucket('user-42', 10));
+        expect(bucket('anything', 1)).toBe(0);
+
+        const counts = [0, 0, 0, 0];
+        for (let index = 0; index < 4000; index += 1) {
+            counts[bucket(`user-${index}`, 4)]! += 1;
+        }
+        expect(counts.every((count) => count > 900 && count < 1100)).toBe(true);
+        expect(() => bucket('a', 0)).toThrow(/positive integer/);
+    });
+});
@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vitest';
+
+import { createRecurrence, formatRecurrenceRule, parseRecurrenceRule } from '../src/utils/recurrence.js';
+import type { RecurrenceRule } from '../src/utils/recurrence.js';
+
+const take = (iterable: Iterable<Date>, count: number): string[] => {
+    const result: string[] = [];
+    for (const date of iterable) {
+        if (result.length === count) {
+            break;
+        }
+        result.push(date.toISOString());
+    }
+    return result;
+};
+
+const parse = (value: string): RecurrenceRule => {
+    const result = parseRecurrenceRule(value, { utc: true });
+    if (!result.ok) {
+        throw result.error;
+    }
+    return result.value;
+};
+
+describe('recurrence utilities', () => {
+    it('parseRecurrenceRule reads the supported RRULE parts', () => {
+        expect(parseRecurrenceRule('RRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=2TU,-1FR;BYMONTH=1,7;WKST=SU')).toEqual({
+            ok: true,
+            value: {
+                freq: 'MONTHLY',
+                interval: 2,
+                byDay: [
+                    { weekday: 'TU', ordinal: 2 },
+                    { weekday: 'FR', ordinal: -1 },
+                ],
+                byMonth: [1, 7],
+                weekStart: 'SU',
+            },
+        });
+        expect(parse('FREQ=DAILY;UNTIL=20240131T120000Z').until?.toISOString()).toBe('2024-01-31T12:00:00.000Z');
+        expect(parse('FREQ=DAILY;UNTIL=20240131').until?.toISOString()).toBe('2024-01-31T00:00:00.000Z');
+    });
+
+    it('parseRecurrenceRule rejects invalid rules', () => {
+        const invalid = [
+            '',
+            'INTERVAL=2',
+            'FREQ=HOURLY',
+            'FREQ=DAILY;FREQ=WEEKLY',
+            'FREQ=DAILY;COUNT=2;UNTIL=20240101',
+            'FREQ=WEEKLY;BYDAY=2TU',
+            'FREQ=MONTHLY;BYMONTHDAY=32',
+            'FREQ=MONTHLY;BYSETPOS=1',
+            'FREQ=MONTHLY;BYHOUR=1',
+            'FREQ=DAILY;INTERVAL=0',
+            'FREQ=DAILY;UNTIL=tomorrow',
+        ];
+        for (const value of invalid) {
+            expect(parseRecurrenceRule(value).ok).toBe(false);
+        }
+    });
+
+    it('formatRecurrenceRule round-trips through parseRecurrenceRule', () => {
+        const value = 'FREQ=YEARLY;INTERVAL=3;UNTIL=20300101T000000Z;BYDAY=-1SU;BYMONTH=3,10;BYSETPOS=1,-1';
+        expect(formatRecurrenceRule(parse(value))).toBe(value);
+    });
+
+    it('generates daily occurrences with count and exclusions', () => {
+        const start = new Date('2024-01-30T09:00:00.000Z');
+        const recurrence = createRecurrence({ freq: 'DAILY', count: 4 }, start, { utc: true, exclude: [new Date('2024-01-31T09:00:00.000Z')] });
+        expect(take(recurrence, 10)).toEqual(['2024-01-30T09:00:00.000Z', '2024-02-01T09:00:00.000Z', '2024-02-02T09:00:00.000Z']);
+    });
+
+    it('generates every 2nd Tuesday of the month', () => {
+        const recurrence = createRecurrence(parse('FREQ=MONTHLY;BYDAY=2TU'), new Date('2024-01-01T18:30:00.000Z'), { utc: true });
+        expect(take(recurrence, 3)).toEqual(['2024-01-09T18:30:00.000Z', '2024-02-13T18:30:00.000Z', '2024-03-12T18:30:00.000Z']);
+    });
+
+    it('generates the last business day of the month with BYSETPOS', () => {
+        const rule = parse('FREQ=MONTHLY;BYDAY=MO,TU,WE,TH,FR;BYSETPOS=-1');
+        const recurrence = createRecurrence(rule, new Date('2024-01-01T00:00:00.000Z'), { utc: true });
+        expect(take(recurrence, 4)).toEqual([
+            '2024-01-31T00:00:00.000Z',
+            '2024-02-29T00:00:00.000Z',
+            '2024-03-29T00:00:00.000Z',
+            '2024-04-30T00:00:00.000Z',
+        ]);
+    });
+
+    it('generates weekly occurrences with interval and BYDAY', () => {
+        const recurrence = createRecurrence(
+            parse('FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,TH;UNTIL=20240131T235959Z'),
+            new Date('2024-01-04T10:00:00.000Z'),
+            {
+                utc: true,
+            },
+        );
+        expect([...recurrence].map((date) => date.toISOString())).toEqual([
+            '2024-01-04T10:00:00.000Z',
+            '2024-01-15T10:00:00.000Z',
+            '2024-01-18T10:00:00.000Z',
+            '2024-01-29T10:00:00.000Z',
+        ]);
+    });
+
+    it('skips months without the requested day', () => {
+        const recurrence = createRecurrence({ freq: 'MONTHLY' }, new Date('2024-01-31T00:00:00.000Z'), { utc: true });
+        expect(take(recurrence, 3)).toEqual(['2024-01-31T00:00:00.000Z', '2024-03-31T00:00:00.000Z', '2024-05-31T00:00:00.000Z']);
+
+        const lastDay = createRecurrence({ freq: 'MONTHLY', byMonthDay: [-1] }, new Date('2024-01-31T00:00:00.000Z'), { utc: true });
+        expect(take(lastDay, 2)).toEqual(['2024-01-31T00:00:00.000Z', '2024-02-29T00:00:00.000Z']);
+    });
+
+    it('generates yearly occurrences', () => {
+        const leapDay = createRecurrence({ freq: 'YEARLY' }, new Date('2024-02-29T00:00:00.000Z'), { utc: true });
+        expect(take(leapDay, 2)).toEqual(['2024-02-29T00:00:00.000Z', '2028-02-29T00:00:00.000Z']);
+
+        const thanksgiving = createRecurrence(parse('FREQ=YEARLY;BYMONTH=11;BYDAY=4TH'), new Date('2024-01-01T00:00:00.000Z'), { utc: true });
+        expect(take(thanksgiving, 2)).toEqual(['2024-11-28T00:00:00.000Z', '2025-11-27T00:00:00.000Z']);
+    });
+
+    it('between returns the occurrences inside the range', () => {
+        const recurrence = createRecurrence({ freq: 'WEEKLY' }, new Date('2024-01-01T12:00:00.000Z'), { utc: true });
+        const result = recurrence.between(new Date('2024-02-01T00:00:00.000Z'), new Date('2024-02-19T12:00:00.000Z'));
+        expect(result.map((date) => date.toISOString())).toEqual([
+            '2024-02-05T12:00:00.000Z',
+            '2024-02-12T12:00:00.000Z',
+            '2024-02-19T12:00:00.000Z',
+        ]);
+    });
+
+    it('keeps the wall clock time in the requested timeZone across DST', () => {
+        const recurrence = createRecurrence({ freq: 'DAILY', count: 3 }, new Date('2024-03-30T09:00:00.000Z'), { timeZone: 'Europe/Lisbon' });
+        expect([...recurrence].map((date) => date.toISOString())).toEqual([
+            '2024-03-30T09:00:00.000Z',
+            '2024-03-31T08:00:00.000Z',
+            '2024-04-01T08:00:00.000Z',
+        ]);
+    });
+
+    it('stops when a rule can never match', () => {
+        const recurrence = createRecurrence({ freq: 'YEARLY', byMonth: [2], byMonthDay: [30] }, new Date('2024-01-01T00:00:00.000Z'), { utc: true });
+        expect([...recurrence]).toEqual([]);
+    });
+
+    it('createRecurrence rejects invalid rules', () => {
+        expect(() => createRecurrence({ freq: 'DAILY', interval: -1 }, new Date())).toThrow(/INTERVAL/);
+    });
+});
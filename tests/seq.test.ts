@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+
+import { chunk, groupBy, unique, zip } from '../src/utils/array.js';
+import { asyncSeq, seq, seqRange } from '../src/utils/seq.js';
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+async function* pages(log: number[]) {
+    for (let page = 0; page < 3; page += 1) {
+        log.push(page);
+        await delay(1);
+        yield* [page * 2, page * 2 + 1];
+    }
+}
+
+describe('seq utilities', () => {
+    it('runs steps lazily, one item at a time', () => {
+        const seen: number[] = [];
+        const result = seqRange(1)
+            .map((value) => {
+                seen.push(value);
+                return value * 10;
+            })
+            .filter((value) => value % 20 === 0)
+            .take(2)
+            .toArray();
+
+        expect(result).toEqual([20, 40]);
+        expect(seen).toEqual([1, 2, 3, 4]);
+    });
+
+    it('can be iterated again when the source can', () => {
+        const doubled = seq([1, 2, 3]).map((value) => value * 2);
+        expect([...doubled]).toEqual([2, 4, 6]);
+        expect([...doubled]).toEqual([2, 4, 6]);
+    });
+
+    it('mirrors the array helpers', () => {
+        const values = [1, 2, 2, 3, 4, 5, 5];
+        expect(seq(values).chunk(3).toArray()).toEqual(chunk(values, 3));
+        expect(seq(values).zip(['a', 'b']).toArray()).toEqual(zip(values, ['a', 'b']));
+        expect(seq(values).uniq().toArray()).toEqual(unique(values));
+        expect(seq(values).groupBy((value) => (value % 2 === 0 ? 'even' : 'odd'))).toEqual(
+            groupBy(values, (value) => (value % 2 === 0 ? 'even' : 'odd')),
+        );
+        expect(() => seq(values).chunk(0)).toThrow('chunk size must be greater than 0');
+    });
+
+    it('supports skip, flatMap, reduce and type guards', () => {
+        const mixed = seq<string | number>([1, 'a', 2, 'b']);
+        const strings: string[] = mixed.filter((value): value is string => typeof value === 'string').toArray();
+        expect(strings).toEqual(['a', 'b']);
+        expect(
+            seq([1, 2, 3])
+                .flatMap((value) => [value, value])
+                .skip(3)
+                .toArray(),
+        ).toEqual([2, 3, 3]);
+        expect(seq([1, 2, 3]).reduce((total, value, index) => total + value * index, 0)).toBe(8);
+    });
+
+    it('zip stops with the shorter side and closes the other iterator', () => {
+        let closed = false;
+        function* endless() {
+            try {
+                for (let value = 0; ; value += 1) {
+                    yield value;
+                }
+            } finally {
+                closed = true;
+            }
+        }
+        expect(seq(['a', 'b']).zip(endless()).toArray()).toEqual([
+            ['a', 0],
+            ['b', 1],
+        ]);
+        expect(closed).toBe(true);
+    });
+
+    it('seqRange mirrors range', () => {
+        expect(seqRange(5, 0, 2).toArray()).toEqual([5, 3, 1]);
+        expect(() => seqRange(0, 1, 0)).toThrow('range step must not be zero');
+    });
+
+    it('processes async iterables with async callbacks', async () => {
+        const log: number[] = [];
+        const result = await asyncSeq(pages(log))
+            .map(async (value) => {
+                await delay(1);
+                return value + 1;
+            })
+            .filter(async (value) => Promise.resolve(value % 2 === 0))
+            .take(2)
+            .toArray();
+
+        expect(result).toEqual([2, 4]);
+        expect(log).toEqual([0, 1]);
+    });
+
+    it('async pipelines offer the same steps', async () => {
+        const source = asyncSeq([1, 2, 2, 3, 4]);
+        expect(await source.chunk(2).toArray()).toEqual([[1, 2], [2, 3], [4]]);
+        expect(await source.uniq().skip(1).toArray()).toEqual([2, 3, 4]);
+        expect(await source.zip(asyncSeq(['a', 'b'])).toArray()).toEqual([
+            [1, 'a'],
+            [2, 'b'],
+        ]);
+        expect(
+            await source
+                .flatMap(async (value) => Promise.resolve(asyncSeq([value, -value])))
+                .take(3)
+                .toArray(),
+        ).toEqual([1, -1, 2]);
+        expect(await source.groupBy((value) => (value > 2 ? 'high' : 'low'))).toEqual({ low: [1, 2, 2], high: [3, 4] });
+        expect(await source.reduce(async (total, value) => Promise.resolve(total + value), 0)).toBe(12);
+        expect(await seq([1, 2]).toAsync().toArray()).toEqual([1, 2]);
+    });
+
+    it('mapConcurrent limits concurrency and keeps source order', async () => {
+        let active = 0;
+        let peak = 0;
+        const result = await asyncSeq([30, 10, 20, 5, 1])
+            .mapConcurrent(async (ms, index) => {
+                active += 1;
+                peak = Math.max(peak, active);
+                await delay(ms);
+                active -= 1;
+                return `${index}:${ms}`;
+            }, 2)
+            .toArray();
+
+        expect(result).toEqual(['0:30', '1:10', '2:20', '3:5', '4:1']);
+        expect(peak).toBe(2);
+        expect(() => asyncSeq([1]).mapConcurrent(async (value) => Promise.resolve(value), 0)).toThrow(/positive integer/);
+    });
+
+    it('mapConcurrent surfaces failures in order', async () => {
+        const run = asyncSeq([1, 2, 3])
+            .mapConcurrent(async (value) => {
+                await delay(value === 2 ? 1 : 5);
+                if (value === 2) {
+                    throw new Error('boom');
+                }
+                return value;
+            }, 3)
+            .toArray();
+
+        await expect(run).rejects.toThrow('boom');
+    });
+});
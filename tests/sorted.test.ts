@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+
+import { by } from '../src/utils/comparator.js';
+import { between, binarySearch, insertSorted, mergeSorted, removeSorted, sortedIndex, sortedLastIndex } from '../src/utils/sorted.js';
+
+type Point = { time: number; value: string };
+
+const series: Point[] = [
+    { time: 10, value: 'a' },
+    { time: 20, value: 'b' },
+    { time: 20, value: 'c' },
+    { time: 30, value: 'd' },
+];
+const byTime = { key: (point: Point) => point.time };
+
+describe('sorted utilities', () => {
+    it('sortedIndex and sortedLastIndex bracket equal items', () => {
+        const values = [1, 2, 2, 2, 5];
+        expect(sortedIndex(values, 2)).toBe(1);
+        expect(sortedLastIndex(values, 2)).toBe(4);
+        expect(sortedIndex(values, 0)).toBe(0);
+        expect(sortedIndex(values, 9)).toBe(5);
+        expect(sortedIndex(series, 20, byTime)).toBe(1);
+        expect(sortedLastIndex(series, 20, byTime)).toBe(3);
+    });
+
+    it('binarySearch finds the first equal item', () => {
+        expect(binarySearch([1, 3, 3, 7], 3)).toBe(1);
+        expect(binarySearch([1, 3, 3, 7], 4)).toBe(-1);
+        expect(binarySearch([], 4)).toBe(-1);
+        expect(binarySearch(series, 30, byTime)).toBe(3);
+        expect(
+            binarySearch(
+                ['c', 'b', 'a'],
+                'a',
+                by((value) => value, { direction: 'desc' }),
+            ),
+        ).toBe(2);
+    });
+
+    it('insertSorted returns a copy with the item after equal ones', () => {
+        const values = [1, 3, 5];
+        expect(insertSorted(values, 4)).toEqual([1, 3, 4, 5]);
+        expect(values).toEqual([1, 3, 5]);
+        expect(insertSorted(series, { time: 20, value: 'new' }, byTime).map((point) => point.value)).toEqual(['a', 'b', 'c', 'new', 'd']);
+
+        const leaderboard = [{ score: 90 }, { score: 70 }];
+        const descending = by((entry: { score: number }) => entry.score, { direction: 'desc' });
+        expect(insertSorted(leaderboard, { score: 80 }, descending)).toEqual([{ score: 90 }, { score: 80 }, { score: 70 }]);
+    });
+
+    it('removeSorted drops the first equal item', () => {
+        expect(removeSorted([1, 2, 2, 3], 2)).toEqual([1, 2, 3]);
+        expect(removeSorted([1, 3], 2)).toEqual([1, 3]);
+        expect(removeSorted(series, 20, byTime).map((point) => point.value)).toEqual(['a', 'c', 'd']);
+    });
+
+    it('between returns an inclusive range', () => {
+        expect(between([1, 2, 3, 4, 5], 2, 4)).toEqual([2, 3, 4]);
+        expect(between([1, 2, 3], 4, 9)).toEqual([]);
+        expect(between(series, 15, 20, byTime).map((point) => point.value)).toEqual(['b', 'c']);
+    });
+
+    it('mergeSorted performs a stable k-way merge', () => {
+        expect(mergeSorted([[1, 4, 7], [2, 5], [], [3, 6, 8, 9]])).toEqual([1, 2, 3, 4, 5, 6, 7, 8, 9]);
+        expect(mergeSorted([])).toEqual([]);
+
+        const left = [
+            { time: 1, value: 'l1' },
+            { time: 2, value: 'l2' },
+        ];
+        const right = [
+            { time: 1, value: 'r1' },
+            { time: 3, value: 'r3' },
+        ];
+        expect(mergeSorted([left, right], byTime).map((point) => point.value)).toEqual(['l1', 'r1', 'l2', 'r3']);
+        expect(mergeSorted([right, left], byTime).map((point) => point.value)).toEqual(['r1', 'l1', 'l2', 'r3']);
+    });
+});
@@ -0,0 +1,159 @@
+import { describe, expect, it } from 'vitest';
+
+import {
+    correlation,
+    createStatsAccumulator,
+    extent,
+    histogram,
+    max,
+    median,
+    min,
+    mode,
+    percentile,
+    quantile,
+    stdDev,
+    variance,
+} from '../src/utils/statistics.js';
+
+describe('statistics utilities', () => {
+    it('median picks the middle value or averages the two middle values', () => {
+        expect(median([3, 1, 2])).toBe(2);
+        expect(median([4, 1, 3, 2])).toBe(2.5);
+        expect(() => median([])).toThrow('Cannot compute median of an empty array');
+    });
+
+    it('mode returns every most frequent value', () => {
+        expect(mode([1, 2, 2, 3])).toEqual([2]);
+        expect(mode([3, 1, 3, 1, 2])).toEqual([1, 3]);
+        expect(() => mode([])).toThrow(/empty array/);
+    });
+
+    it('quantile supports the NumPy interpolation methods', () => {
+        const values = [1, 2, 3, 4];
+        expect(quantile(values, 0)).toBe(1);
+        expect(quantile(values, 1)).toBe(4);
+        expect(quantile(values, 0.5)).toBe(2.5);
+        expect(quantile(values, 0.4)).toBeCloseTo(2.2);
+        expect(quantile(values, 0.4, { interpolation: 'lower' })).toBe(2);
+        expect(quantile(values, 0.4, { interpolation: 'higher' })).toBe(3);
+        expect(quantile(values, 0.4, { interpolation: 'nearest' })).toBe(2);
+        expect(quantile(values, 0.5, { interpolation: 'nearest' })).toBe(3);
+        expect(quantile(values, 0.4, { interpolation: 'midpoint' })).toBe(2.5);
+        expect(() => quantile(values, 1.5)).toThrow(/between 0 and 1/);
+        expect(() => quantile([], 0.5)).toThrow(/empty array/);
+    });
+
+    it('percentile expresses the rank as a percentage', () => {
+        expect(percentile([15, 20, 35, 40, 50], 40)).toBe(29);
+        expect(percentile([15, 20, 35, 40, 50], 100)).toBe(50);
+        expect(() => percentile([1], 101)).toThrow(/between 0 and 100/);
+    });
+
+    it('variance and stdDev support population and sample formulas', () => {
+        const values = [2, 4, 4, 4, 5, 5, 7, 9];
+        expect(variance(values)).toBe(4);
+        expect(stdDev(values)).toBe(2);
+        expect(variance(values, { sample: true })).toBeCloseTo(32 / 7);
+        expect(stdDev(values, { sample: true })).toBeCloseTo(Math.sqrt(32 / 7));
+        expect(variance([5])).toBe(0);
+        expect(() => variance([5], { sample: true })).toThrow(/fewer than two/);
+        expect(() => stdDev([])).toThrow('Cannot compute standard deviation of an empty array');
+    });
+
+    it('min, max and extent scan large lists without spreading', () => {
+        const values = Array.from({ length: 200_000 }, (_, index) => (index * 7919) % 200_000);
+        expect(min(values)).toBe(0);
+        expect(max(values)).toBe(199_999);
+        expect(extent([3, -1, 8])).toEqual([-1, 8]);
+        expect(() => min([])).toThrow(/empty array/);
+    });
+
+    it('histogram bins values into equal-width or explicit bins', () => {
+        expect(histogram([1, 2, 2, 3, 4, 5], { bins: 2 })).toEqual([
+            { start: 1, end: 3, count: 3 },
+            { start: 3, end: 5, count: 3 },
+        ]);
+        expect(histogram([0, 5, 10, 15, 20], { bins: [0, 10, 15] })).toEqual([
+            { start: 0, end: 10, count: 2 },
+            { start: 10, end: 15, count: 2 },
+        ]);
+        expect(histogram([], { bins: 2, range: [0, 1] })).toEqual([
+            { start: 0, end: 0.5, count: 0 },
+            { start: 0.5, end: 1, count: 0 },
+        ]);
+        expect(histogram([7, 7], { bins: 1 })).toEqual([{ start: 6.5, end: 7.5, count: 2 }]);
+        expect(histogram([1, 2, 3])).toHaveLength(10);
+        expect(() => histogram([])).toThrow(/empty array/);
+        expect(() => histogram([1], { bins: [2, 1] })).toThrow(/ascending/);
+        expect(() => histogram([1], { bins: 0 })).toThrow(/positive integer/);
+    });
+
+    it('correlation computes the Pearson coefficient', () => {
+        expect(correlation([1, 2, 3], [2, 4, 6])).toBeCloseTo(1);
+        expect(correlation([1, 2, 3], [3, 2, 1])).toBeCloseTo(-1);
+        expect(correlation([1, 2, 3, 4], [1, 3, 2, 4])).toBeCloseTo(0.8);
+        expect(correlation([1, 1, 1], [1, 2, 3])).toBeNaN();
+        expect(() => correlation([1, 2], [1])).toThrow(/different lengths/);
+        expect(() => correlation([1], [1])).toThrow(/fewer than two/);
+    });
+
+    it('createStatsAccumulator streams values with Welford updates', () => {
+        const values = [2, 4, 4, 4, 5, 5, 7, 9];
+        const accumulator = createStatsAccumulator();
+        values.forEach(accumulator.add);
+
+        expect(accumulator.count()).toBe(8);
+        expect(accumulator.sum()).toBe(40);
+        expect(accumulator.mean()).toBe(5);
+        expect(accumulator.variance()).toBeCloseTo(4);
+        expect(accumulator.stdDev({ sample: true })).toBeCloseTo(stdDev(values, { sample: true }));
+        expect(accumulator.min()).toBe(2);
+        expect(accumulator.max()).toBe(9);
+    });
+
+    it('accumulators merge across workers through their state', () => {
+        const left = createStatsAccumulator();
+        const right = createStatsAccumulator();
+        [1, 2, 3].forEach(left.add);
+        [10, 20].forEach(right.add);
+
+        const resumed = createStatsAccumulator(JSON.parse(JSON.stringify(right.state())));
+        left.merge(resumed);
+        left.merge(createStatsAccumulator());
+
+        const all = [1, 2, 3, 10, 20];
+        expect(left.count()).toBe(5);
+        expect(left.mean()).toBeCloseTo(7.2);
+        expect(left.variance()).toBeCloseTo(variance(all));
+        expect(left.min()).toBe(1);
+        expect(left.max()).toBe(20);
+
+        const empty = createStatsAccumulator();
+        empty.merge(left.state());
+        expect(empty.variance({ sample: true })).toBeCloseTo(variance(all, { sample: true }));
+    });
+
+    it('accumulators keep an exact running sum', () => {
+        const accumulator = createStatsAccumulator();
+        for (let value = 1; value <= 10_000; value += 1) {
+            accumulator.add(value % 7 === 0 ? 1_000_003 : value);
+        }
+        const expected = Array.from({ length: 10_000 }, (_, index) => ((index + 1) % 7 === 0 ? 1_000_003 : index + 1)).reduce((a, b) => a + b, 0);
+        expect(accumulator.sum()).toBe(expected);
+
+        const merged = createStatsAccumulator();
+        merged.merge(accumulator.state());
+        merged.merge(accumulator);
+        expect(merged.sum()).toBe(2 * expected);
+        expect(merged.state().sum).toBe(2 * expected);
+    });
+
+    it('empty accumulators throw like mean', () => {
+        const accumulator = createStatsAccumulator();
+        expect(accumulator.count()).toBe(0);
+        expect(accumulator.sum()).toBe(0);
+        expect(() => accumulator.mean()).toThrow('Cannot compute mean of an empty accumulator');
+        expect(() => accumulator.variance()).toThrow(/empty accumulator/);
+        expect(() => accumulator.min()).toThrow(/empty accumulator/);
+    });
+});
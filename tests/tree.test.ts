@@ -0,0 +1,111 @@
+import { describe, expect, it } from 'vitest';
+
+import { buildTree, filterTree, findPath, flattenTree, mapTree, subtreeOf, walkTree } from '../src/utils/tree.js';
+
+type Category = { id: number; parentId: number | null; name: string };
+
+const categories: Category[] = [
+    { id: 1, parentId: null, name: 'root' },
+    { id: 2, parentId: 1, name: 'books' },
+    { id: 3, parentId: 1, name: 'music' },
+    { id: 4, parentId: 2, name: 'novels' },
+    { id: 5, parentId: 3, name: 'jazz' },
+    { id: 6, parentId: null, name: 'archive' },
+];
+const options = { id: (category: Category) => category.id, parentId: (category: Category) => category.parentId };
+const names = (items: Category[] | undefined) => items?.map((item) => item.name);
+
+describe('tree utilities', () => {
+    it('buildTree links children and keeps sibling order', () => {
+        const { roots, orphans, cycles } = buildTree(categories, options);
+        expect(roots.map((node) => node.item.name)).toEqual(['root', 'archive']);
+        expect(roots[0]?.children.map((node) => node.item.name)).toEqual(['books', 'music']);
+        expect(orphans).toEqual([]);
+        expect(cycles).toEqual([]);
+    });
+
+    it('buildTree reports orphans and cycles', () => {
+        const { roots, orphans, cycles } = buildTree(
+            [
+                ...categories,
+                { id: 7, parentId: 99, name: 'lost' },
+                { id: 8, parentId: 7, name: 'lost child' },
+                { id: 9, parentId: 10, name: 'a' },
+                { id: 10, parentId: 9, name: 'b' },
+                { id: 11, parentId: 10, name: 'under loop' },
+                { id: 12, parentId: 12, name: 'self' },
+            ],
+            options,
+        );
+
+        expect(roots).toHaveLength(2);
+        expect(names(orphans.map((node) => node.item))).toEqual(['lost']);
+        expect(names(orphans[0]?.children.map((node) => node.item))).toEqual(['lost child']);
+        expect(cycles.map(names)).toEqual([['a', 'b'], ['self']]);
+    });
+
+    it('buildTree rejects duplicate ids', () => {
+        expect(() => buildTree([...categories, categories[0]!], options)).toThrow('Duplicate tree node id "1"');
+    });
+
+    it('walkTree visits depth-first or breadth-first and can stop early', () => {
+        const { roots } = buildTree(categories, options);
+        const visit = (order: 'depth-first' | 'breadth-first') => {
+            const visited: string[] = [];
+            walkTree(roots, (node, depth) => void visited.push(`${node.item.name}@${depth}`), order);
+            return visited;
+        };
+
+        expect(visit('depth-first')).toEqual(['root@0', 'books@1', 'novels@2', 'music@1', 'jazz@2', 'archive@0']);
+        expect(visit('breadth-first')).toEqual(['root@0', 'archive@0', 'books@1', 'music@1', 'novels@2', 'jazz@2']);
+
+        const visited: string[] = [];
+        const completed = walkTree(roots, (node) => {
+            visited.push(node.item.name);
+            return node.item.name !== 'novels';
+        });
+        expect(completed).toBe(false);
+        expect(visited).toEqual(['root', 'books', 'novels']);
+    });
+
+    it('flattenTree lists items depth-first', () => {
+        expect(names(flattenTree(buildTree(categories, options).roots))).toEqual(['root', 'books', 'novels', 'music', 'jazz', 'archive']);
+    });
+
+    it('findPath returns the ancestors of a node', () => {
+        const { roots } = buildTree(categories, options);
+        expect(names(findPath(roots, (item) => item.name === 'jazz'))).toEqual(['root', 'music', 'jazz']);
+        expect(findPath(roots, (item) => item.name === 'missing')).toBeUndefined();
+    });
+
+    it('subtreeOf returns the matching node with its descendants', () => {
+        const { roots } = buildTree(categories, options);
+        expect(names(flattenTree([subtreeOf(roots, (item) => item.id === 2)!]))).toEqual(['books', 'novels']);
+        expect(subtreeOf(roots, (item) => item.id === 42)).toBeUndefined();
+    });
+
+    it('mapTree keeps the shape', () => {
+        const mapped = mapTree(buildTree(categories, options).roots, (item) => item.name.toUpperCase());
+        expect(mapped[0]?.children[1]).toEqual({ item: 'MUSIC', children: [{ item: 'JAZZ', children: [] }] });
+    });
+
+    it('filterTree keeps matches with their ancestors', () => {
+        const filtered = filterTree(buildTree(categories, options).roots, (item) => item.name.startsWith('n'));
+        expect(mapTree(filtered, (item) => item.name)).toEqual([
+            { item: 'root', children: [{ item: 'books', children: [{ item: 'novels', children: [] }] }] },
+        ]);
+    });
+
+    it('mapTree and filterTree handle trees deeper than the call stack', () => {
+        const depth = 50_000;
+        const rows = Array.from({ length: depth }, (_, index) => ({ id: index, parentId: index === 0 ? undefined : index - 1 }));
+        const { roots } = buildTree(rows, { id: (row) => row.id, parentId: (row) => row.parentId });
+
+        const mapped = mapTree(roots, (row) => row.id * 2);
+        expect(flattenTree(mapped)).toEqual(rows.map((row) => row.id * 2));
+
+        const filtered = filterTree(roots, (row) => row.id === depth - 1);
+        expect(flattenTree(filtered)).toHaveLength(depth);
+        expect(filterTree(roots, (row) => row.id < 0)).toEqual([]);
+    });
+});